@@ -0,0 +1,84 @@
+import { WaveScript, DEFAULT_WAVE_SCRIPT, parseWaveScript } from './waves/WaveScript';
+import easyWaves from './waves/easy.json';
+import hardWaves from './waves/hard.json';
+
+// Everything a difficulty changes, in one place.
+// Speeds are multipliers on the tuning values so the debug sliders keep working
+// on every preset; Normal leaves the tuning untouched.
+
+export type DifficultyId = 'easy' | 'normal' | 'hard';
+
+export interface BeginnerExplosionRule {
+  radius: number;   // Explosions are capped to this radius...
+  duration: number; // ...for this many seconds from the start of the match
+}
+
+export interface DifficultyPreset {
+  id: DifficultyId;
+  label: string;
+  waveScript: WaveScript;
+  meteorSpeedMultiplier: number;
+  explosionRadiusMultiplier: number;
+  beginnerExplosion: BeginnerExplosionRule | null;
+  creatureFleeDistance: number;
+  creatureFleeSpeed: number;
+  playerSpeedMultiplier: number;
+  punchRadius: number;
+  matchDuration: number;
+  fallPenalty: number;      // Survival time lost per fall: put back on the countdown
+  fallLimit: number | null; // Falling this many times loses the match
+}
+
+export const DIFFICULTY_PRESETS: Record<DifficultyId, DifficultyPreset> = {
+  easy: {
+    id: 'easy',
+    label: 'Easy',
+    waveScript: parseWaveScript(easyWaves),
+    meteorSpeedMultiplier: 0.85,
+    explosionRadiusMultiplier: 0.9,
+    beginnerExplosion: { radius: 1.2, duration: 10 }, // Spec 5.5 beginner relief
+    creatureFleeDistance: 3.0,
+    creatureFleeSpeed: 2.4,
+    playerSpeedMultiplier: 1.1,
+    punchRadius: 0.75,
+    matchDuration: 45,
+    fallPenalty: 3,
+    fallLimit: null
+  },
+  normal: {
+    id: 'normal',
+    label: 'Normal',
+    waveScript: DEFAULT_WAVE_SCRIPT,
+    meteorSpeedMultiplier: 1,
+    explosionRadiusMultiplier: 1,
+    beginnerExplosion: null,
+    creatureFleeDistance: 2.5,
+    creatureFleeSpeed: 2.0,
+    playerSpeedMultiplier: 1,
+    punchRadius: 0.6,
+    matchDuration: 60,
+    fallPenalty: 3,
+    fallLimit: null
+  },
+  hard: {
+    id: 'hard',
+    label: 'Hard',
+    waveScript: parseWaveScript(hardWaves),
+    meteorSpeedMultiplier: 1.15,
+    explosionRadiusMultiplier: 1.15,
+    beginnerExplosion: null,
+    creatureFleeDistance: 2.0,
+    creatureFleeSpeed: 1.8,
+    playerSpeedMultiplier: 1,
+    punchRadius: 0.5,
+    matchDuration: 75,
+    fallPenalty: 3,
+    fallLimit: 3 // Spec: optional failure after three falls
+  }
+};
+
+export const DIFFICULTY_ORDER: DifficultyId[] = ['easy', 'normal', 'hard'];
+
+export function isDifficultyId(value: unknown): value is DifficultyId {
+  return typeof value === 'string' && DIFFICULTY_ORDER.includes(value as DifficultyId);
+}
@@ -1,39 +1,69 @@
 import * as THREE from 'three';
 import { StateMachine } from './core/StateMachine';
 import { GameLoop } from './core/GameLoop';
-import { GameState } from './core/GameState';
+import { Time } from './core/Time';
+import { Random } from './core/Random';
+import { GameState, PauseReason } from './core/GameState';
 import { Renderer } from './three/Renderer';
 import { CameraController } from './three/CameraController';
 import { SceneFactory } from './three/SceneFactory';
-import { InputManager } from './input/InputManager';
-import { Player } from './entities/Player';
-import { Creature } from './entities/Creature';
-import { MeteorSpawner } from './systems/MeteorSpawner';
-import { CollisionSystem } from './systems/CollisionSystem';
+import { TerrainMesh } from './three/TerrainMesh';
+import { TargetMarker } from './three/TargetMarker';
+import { Heightfield } from './core/Heightfield';
+import { InputManager, InputDevice } from './input/InputManager';
+import { Simulation, SimulationTuning } from './Simulation';
+import { Replay, ReplayError, encodeFrame, decodeInput, decodeAim, decodePunchAim, serializeReplay, parseReplay } from './replay/Replay';
+import { ReplayRecorder } from './replay/ReplayRecorder';
+import { ReplayPlayer } from './replay/ReplayPlayer';
 import { EffectsSystem } from './systems/EffectsSystem';
+import { AimAssist, AimMode, AimSettings, AIM_MODE_ORDER, AIM_MODE_LABELS, DEVICE_AIM_DEFAULTS, isAimMode } from './systems/AimAssist';
+import { DifficultyId, DIFFICULTY_PRESETS, DIFFICULTY_ORDER, isDifficultyId } from './DifficultyPresets';
+import { HighScores } from './HighScores';
 import { HUD } from '../ui/HUD';
+import { PauseOverlay } from '../ui/PauseOverlay';
+import { TitleScreen } from '../ui/TitleScreen';
+import { ResultScreen } from '../ui/ResultScreen';
+import { ScreenFader } from '../ui/Transitions';
 
 export class Game {
   private container: HTMLElement;
   private renderer!: Renderer;
   private cameraController!: CameraController;
   private scene!: THREE.Scene;
+  private terrain!: TerrainMesh;
   private stateMachine!: StateMachine;
   private gameLoop!: GameLoop;
   private inputManager!: InputManager;
 
-  // Game entities and systems
-  private player!: Player;
-  private creatures: Creature[] = [];
-  private meteorSpawner!: MeteorSpawner;
-  private collisionSystem!: CollisionSystem;
+  // Gameplay rules live in the simulation; Game only presents them
+  private simulation!: Simulation;
   private effectsSystem!: EffectsSystem;
+  private aimAssist = new AimAssist();
+  private targetMarker!: TargetMarker;
   private hud!: HUD;
+  private pauseOverlay!: PauseOverlay;
+  private titleScreen!: TitleScreen;
+  private resultScreen!: ResultScreen;
+  private screenFader!: ScreenFader;
 
-  // Game state
-  private gameTimer = 60; // 60 seconds game time
-  private aliveCreatures = 3;
+  // Replays
+  private replayRecorder = new ReplayRecorder();
+  private replayPlayer: ReplayPlayer | null = null;
+  private lastReplay: Replay | null = null;
+  private liveTuning: SimulationTuning | null = null; // Slider values to restore after playback
+
+  // Difficulty picked on the title screen; replays bring their own
+  private difficulty: DifficultyId = Game.loadDifficulty();
+  private highScores = new HighScores();
+
+  // Aiming picked on the title screen; null follows the active device's default
+  private aimMode: AimMode | null = Game.loadAimMode();
+  private assistStrength: number | null = null; // Set once the debug slider is touched
+  private shownAimDevice: InputDevice | null = null;
+
+  // Presentation state
   private isGameRunning = false;
+  private readonly fixedSeed = Game.readSeedFromUrl(); // ?seed=1234 replays a shared run
 
   constructor() {
     this.container = document.getElementById('app') as HTMLElement;
@@ -55,7 +85,8 @@ export class Game {
   }
 
   private setupScene() {
-    this.scene = SceneFactory.createGameScene();
+    this.terrain = new TerrainMesh(Heightfield.instance);
+    this.scene = SceneFactory.createGameScene(this.terrain);
   }
 
   private setupCamera() {
@@ -67,16 +98,30 @@ export class Game {
   }
 
   private setupStateMachine() {
-    this.stateMachine = new StateMachine();
+    this.titleScreen = new TitleScreen();
+    this.resultScreen = new ResultScreen();
+    this.screenFader = new ScreenFader();
+
+    this.stateMachine = new StateMachine({
+      initial: GameState.Boot,
+      transitions: [
+        { from: GameState.Boot, to: GameState.Title }, // Loading complete
+        { from: GameState.Title, to: GameState.Play }, // Start game or watch a replay
+        { from: GameState.Play, to: GameState.Result }, // Game over/clear
+        { from: GameState.Play, to: GameState.Pause, guard: () => this.simulation.isRunning() },
+        { from: GameState.Pause, to: GameState.Play, guard: (payload) => !(payload && 'replay' in payload) }, // Resume only
+        { from: GameState.Pause, to: GameState.Title }, // Quit
+        { from: GameState.Result, to: GameState.Play }, // Retry or watch a replay
+        { from: GameState.Result, to: GameState.Title } // Back to title
+      ]
+    });
     
     // Boot state
     this.stateMachine.addStateHandler(GameState.Boot, {
-      onEnter: () => {
+      onEnter: async () => {
         console.log('Booting game...');
-        // Simulate asset loading
-        setTimeout(() => {
-          this.stateMachine.transitionTo(GameState.Title);
-        }, 100);
+        await this.loadAssets();
+        this.stateMachine.transitionTo(GameState.Title);
       }
     });
 
@@ -84,38 +129,103 @@ export class Game {
     this.stateMachine.addStateHandler(GameState.Title, {
       onEnter: () => {
         console.log('Title screen');
-        this.showTitleUI();
+        this.showDifficulty();
+        this.showAimMode();
+      },
+      animateIn: () => this.titleScreen.show(),
+      animateOut: async (nextState: GameState) => {
+        await Promise.all([
+          this.titleScreen.hide(),
+          nextState === GameState.Play ? this.screenFader.toBlack() : undefined
+        ]);
       },
       update: (_deltaTime: number) => {
         const input = this.inputManager.getInputState();
-        if (input.jumpPressed || input.punchPressed) {
+        if (this.inputManager.wasKeyPressed('ArrowLeft') || this.inputManager.wasKeyPressed('KeyA')) {
+          this.cycleDifficulty(-1);
+        } else if (this.inputManager.wasKeyPressed('ArrowRight') || this.inputManager.wasKeyPressed('KeyD')) {
+          this.cycleDifficulty(1);
+        } else if (this.inputManager.wasKeyPressed('ArrowUp') || this.inputManager.wasKeyPressed('KeyW')) {
+          this.cycleAimMode(-1);
+        } else if (this.inputManager.wasKeyPressed('ArrowDown') || this.inputManager.wasKeyPressed('KeyS')) {
+          this.cycleAimMode(1);
+        } else if (input.jumpPressed || input.punchPressed) {
           console.log('Title state - input detected, transitioning to Play state');
           this.stateMachine.transitionTo(GameState.Play);
         }
+
+        // Device defaults change when the player picks up another controller
+        if (this.inputManager.getActiveDevice() !== this.shownAimDevice) {
+          this.showAimMode();
+        }
       }
     });
 
     // Play state
     this.stateMachine.addStateHandler(GameState.Play, {
-      onEnter: () => {
+      onEnter: (payload, previousState) => {
+        if (previousState === GameState.Pause) return; // Resuming, not restarting
         console.log('Starting game');
-        this.startGame();
+        this.startGame(payload?.replay ?? null);
         this.hud.show();
       },
       update: (deltaTime: number) => {
         this.updateGame(deltaTime);
       },
-      onExit: () => {
-        this.isGameRunning = false;
-        this.hud.hide();
+      onExit: (nextState: GameState) => {
+        if (nextState === GameState.Pause) return;
+        this.endGame(true);
+      },
+      // Fade through black when entering or leaving a match (spec 6.2), not around pauses
+      animateIn: (previousState) => {
+        if (previousState === GameState.Pause) return;
+        return this.screenFader.fromBlack();
+      },
+      animateOut: (nextState: GameState) => {
+        if (nextState === GameState.Pause) return;
+        return this.screenFader.toBlack();
+      }
+    });
+
+    // Pause state - timeScale 0 stops the fixed tick, freezing every system and the timer
+    this.stateMachine.addStateHandler(GameState.Pause, {
+      onEnter: (payload) => {
+        console.log(`Paused (${payload.reason})`);
+        Time.instance.timeScale = 0;
+        this.pauseOverlay.show();
+      },
+      onExit: (nextState: GameState) => {
+        Time.instance.timeScale = 1;
+        this.pauseOverlay.hide();
+        if (nextState === GameState.Title) {
+          this.endGame(false); // Quit mid-match: nothing worth keeping as a replay
+        }
       }
     });
 
     // Result state
     this.stateMachine.addStateHandler(GameState.Result, {
-      onEnter: () => {
+      onEnter: (payload) => {
         console.log('Game over');
-        this.showResultUI();
+        const { result, wasReplay } = payload;
+        const isNewBest = !wasReplay && this.highScores.submit(result);
+        const best = this.highScores.get(result.difficulty);
+        this.resultScreen.setResult(
+          result,
+          wasReplay,
+          DIFFICULTY_PRESETS[result.difficulty].label,
+          best ? HighScores.describe(best) : null,
+          isNewBest
+        );
+      },
+      animateIn: async () => {
+        await Promise.all([this.screenFader.fromBlack(), this.resultScreen.show()]);
+      },
+      animateOut: async (nextState: GameState) => {
+        await Promise.all([
+          this.resultScreen.hide(),
+          nextState === GameState.Play ? this.screenFader.toBlack() : undefined
+        ]);
       },
       update: (_deltaTime: number) => {
         const input = this.inputManager.getInputState();
@@ -123,242 +233,400 @@ export class Game {
           this.stateMachine.transitionTo(GameState.Play);
         } else if (input.punchPressed) {
           this.stateMachine.transitionTo(GameState.Title);
+        } else if (this.inputManager.wasKeyPressed('KeyR') && this.lastReplay) {
+          this.playReplay(this.lastReplay);
+        } else if (this.inputManager.wasKeyPressed('KeyE') && this.lastReplay) {
+          this.downloadReplay(this.lastReplay);
         }
       }
     });
   }
 
+  private cycleDifficulty(step: number) {
+    const index = DIFFICULTY_ORDER.indexOf(this.difficulty);
+    this.difficulty = DIFFICULTY_ORDER[(index + step + DIFFICULTY_ORDER.length) % DIFFICULTY_ORDER.length];
+    try {
+      localStorage.setItem('mpg_difficulty', this.difficulty);
+    } catch {
+      // Not remembered across sessions, still used for this one
+    }
+    this.showDifficulty();
+  }
+
+  private showDifficulty() {
+    const best = this.highScores.get(this.difficulty);
+    this.titleScreen.setDifficulty(DIFFICULTY_PRESETS[this.difficulty].label, best ? HighScores.describe(best) : null);
+  }
+
+  // Cycles through the device default first, then each mode
+  private cycleAimMode(step: number) {
+    const choices: (AimMode | null)[] = [null, ...AIM_MODE_ORDER];
+    const index = choices.indexOf(this.aimMode);
+    this.aimMode = choices[(index + step + choices.length) % choices.length];
+    try {
+      localStorage.setItem('mpg_aim_mode', this.aimMode ?? 'device');
+    } catch {
+      // Not remembered across sessions, still used for this one
+    }
+    this.showAimMode();
+  }
+
+  private showAimMode() {
+    this.shownAimDevice = this.inputManager.getActiveDevice();
+    const settings = this.getAimSettings();
+    this.titleScreen.setAimMode(AIM_MODE_LABELS[settings.mode], this.aimMode === null ? this.shownAimDevice : null);
+  }
+
+  private getAimSettings(): AimSettings {
+    const defaults = DEVICE_AIM_DEFAULTS[this.inputManager.getActiveDevice()];
+    return {
+      mode: this.aimMode ?? defaults.mode,
+      assistStrength: this.assistStrength ?? defaults.assistStrength
+    };
+  }
+
+  private static loadAimMode(): AimMode | null {
+    try {
+      const stored = localStorage.getItem('mpg_aim_mode');
+      return isAimMode(stored) ? stored : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static loadDifficulty(): DifficultyId {
+    try {
+      const stored = localStorage.getItem('mpg_difficulty');
+      return isDifficultyId(stored) ? stored : 'normal';
+    } catch {
+      return 'normal';
+    }
+  }
+
+  private async loadAssets() {
+    // Simulate asset loading
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+
   private setupGameLoop() {
     this.gameLoop = new GameLoop();
     this.gameLoop.setUpdateCallback((deltaTime: number) => {
       this.update(deltaTime);
     });
-    this.gameLoop.setRenderCallback(() => {
-      this.render();
+    this.gameLoop.setRenderCallback((alpha: number) => {
+      this.render(alpha);
     });
   }
 
   private setupEntitiesAndSystems() {
-    this.player = new Player();
-    this.meteorSpawner = new MeteorSpawner();
-    this.collisionSystem = new CollisionSystem();
+    this.simulation = new Simulation({}, this.difficulty);
     this.effectsSystem = new EffectsSystem(this.scene);
+    this.targetMarker = new TargetMarker();
+    this.scene.add(this.targetMarker.mesh);
     this.hud = new HUD();
     
-    // Connect HUD sliders to game entities
+    // Connect HUD sliders to simulation tuning
     this.hud.setSpeedChangeCallback((speed: number) => {
-      this.player.setMoveSpeed(speed);
+      this.changeTuning({ playerMoveSpeed: speed });
     });
 
     this.hud.setMeteorSpeedChangeCallback((speed: number) => {
-      this.meteorSpawner.setMeteorSpeed(speed);
+      this.changeTuning({ meteorSpeed: speed });
     });
 
     this.hud.setMeteorFreqChangeCallback((freq: number) => {
-      this.meteorSpawner.setFrequencyMultiplier(freq);
+      this.changeTuning({ meteorFrequency: freq });
+    });
+
+    // Presentation-side only: the assisted direction is what gets recorded
+    this.hud.setAimAssistChangeCallback((strength: number) => {
+      this.assistStrength = strength;
     });
     
-    this.scene.add(this.player.getGroup());
-    
-    // Create creatures
-    const spawnPositions = Creature.createSpawnPositions();
-    this.creatures = spawnPositions.map(pos => new Creature(pos));
-    this.creatures.forEach(creature => this.scene.add(creature.getMesh()));
+    this.scene.add(this.simulation.getWorld().getRoot());
+    this.setupEventHandlers();
+    this.setupReplayDrop();
+    this.setupPause();
+  }
+
+  private setupPause() {
+    this.pauseOverlay = new PauseOverlay();
+    this.pauseOverlay.setResumeCallback(() => this.resume());
+    this.pauseOverlay.setQuitCallback(() => this.stateMachine.transitionTo(GameState.Title));
+
+    // Handled outside the tick because no ticks run while paused
+    window.addEventListener('keydown', this.onPauseKey);
+    document.addEventListener('visibilitychange', this.onVisibilityChange);
+    window.addEventListener('blur', this.onWindowBlur);
+  }
+
+  private onPauseKey = (e: KeyboardEvent) => {
+    if (e.code !== 'Escape' || e.repeat) return;
+
+    if (this.stateMachine.getCurrentState() === GameState.Pause) {
+      this.resume();
+    } else {
+      this.pause('key');
+    }
+  };
+
+  private onVisibilityChange = () => {
+    if (document.hidden) {
+      this.pause('hidden');
+    }
+  };
+
+  private onWindowBlur = () => {
+    this.pause('blur');
+  };
+
+  pause(reason: PauseReason = 'menu') {
+    if (this.stateMachine.getCurrentState() === GameState.Play) {
+      this.stateMachine.transitionTo(GameState.Pause, { reason });
+    }
+  }
+
+  resume() {
+    if (this.stateMachine.getCurrentState() === GameState.Pause) {
+      this.stateMachine.transitionTo(GameState.Play);
+    }
+  }
+
+  private setupEventHandlers() {
+    const events = this.simulation.getEventBus();
+    this.effectsSystem.subscribe(events);
+
+    this.stateMachine.onTransition((from, to) => {
+      events.emit({ type: 'state_changed', from, to });
+    });
+  }
+
+  private changeTuning(tuning: Partial<SimulationTuning>) {
+    // Playback owns the tuning; remember slider changes for afterwards
+    if (this.replayPlayer && this.liveTuning) {
+      this.liveTuning = { ...this.liveTuning, ...tuning };
+      return;
+    }
+
+    this.simulation.setTuning(tuning);
+    this.replayRecorder.recordTuningChange(this.simulation.getTuning());
+  }
+
+  private setupReplayDrop() {
+    // Drop a replay file onto the page to watch it
+    window.addEventListener('dragover', (e) => e.preventDefault());
+    window.addEventListener('drop', async (e) => {
+      e.preventDefault();
+      const file = e.dataTransfer?.files[0];
+      if (!file) return;
+
+      try {
+        this.playReplay(parseReplay(await file.text()));
+      } catch (error) {
+        if (error instanceof ReplayError) {
+          console.warn(`Could not load replay: ${error.message}`);
+          return;
+        }
+        throw error;
+      }
+    });
   }
 
+  // Called once per fixed simulation tick
   private update(deltaTime: number) {
     this.inputManager.update();
     this.stateMachine.update(deltaTime);
-    
-    if (this.isGameRunning) {
-      this.updateGameEntities(deltaTime);
-      this.updateCamera(deltaTime);
-    }
   }
 
   private updateGame(deltaTime: number) {
-    // Update game timer
-    this.gameTimer -= deltaTime;
-    
-    // Update entities
-    this.updateGameEntities(deltaTime);
+    const frame = this.nextInputFrame();
+    if (!frame) {
+      // Replay ran out before the match ended
+      this.finishMatch();
+      return;
+    }
+
+    this.simulation.step(deltaTime, decodeInput(frame), decodeAim(frame), decodePunchAim(frame));
+
+    // Update effects on their own time channel so hit-stop freezes particles too
+    this.effectsSystem.update(deltaTime * this.simulation.getTimeScale('effects'));
     
     // Update HUD
-    this.hud.updateTime(Math.max(0, this.gameTimer));
-    this.hud.updateCreatures(this.aliveCreatures);
+    this.hud.updateTime(this.simulation.getTimeRemaining());
+    this.hud.updateCreatures(this.simulation.getAliveCreatures(), this.simulation.getTotalCreatures());
+    this.hud.updateBoss(this.simulation.getMeteorSpawner().getBossStatus());
+    this.hud.updateFalls(this.simulation.getFalls(), this.simulation.getFallLimit());
     
-    // Check win/lose conditions
-    this.checkGameConditions();
+    if (!this.simulation.isRunning()) {
+      this.finishMatch();
+    }
   }
 
-  private updateGameEntities(deltaTime: number) {
-    const inputState = this.inputManager.getInputState();
-    
-    // Update player with camera direction for proper punch alignment
-    const cameraDirection = this.cameraController.getForwardDirection();
-    this.player.update(deltaTime, inputState, cameraDirection);
-    
-    // Update creatures
-    const telegraphPositions = this.meteorSpawner.getTelegraphPositions();
-    this.creatures.forEach(creature => creature.update(deltaTime, telegraphPositions));
-    
-    // Update meteors
-    this.meteorSpawner.update(deltaTime);
-    this.meteorSpawner.addMeteorsToScene(this.scene);
+  private finishMatch() {
+    this.stateMachine.transitionTo(GameState.Result, {
+      result: this.simulation.getResult(),
+      wasReplay: this.replayPlayer !== null
+    });
+  }
 
-    // Update effects
-    this.effectsSystem.update(deltaTime);
-    
-    // Update collisions
-    this.collisionSystem.update(this.player, this.creatures, this.meteorSpawner.getMeteors());
-    
-    // Handle collision events
-    const events = this.collisionSystem.getEvents();
-    events.forEach(event => this.handleCollisionEvent(event));
-    this.collisionSystem.clearEvents();
+  // Live input is quantized exactly like recorded input so playback matches
+  private nextInputFrame() {
+    if (this.replayPlayer) {
+      const tuning = this.replayPlayer.getPendingTuning();
+      if (tuning) {
+        this.simulation.setTuning(tuning);
+      }
+      this.aimAssist.clear(); // Recorded frames carry their own aim; no live target to mark
+      return this.replayPlayer.nextFrame();
+    }
+
+    // Movement follows the camera; punches go wherever the aiming mode says
+    const cameraDirection = this.cameraController.getForwardDirection();
+    const punchDirection = this.aimAssist.resolve(
+      this.getAimSettings(),
+      cameraDirection,
+      this.simulation.getPlayer(),
+      this.simulation.getMeteorSpawner().getMeteors()
+    );
+    const frame = encodeFrame(this.inputManager.getInputState(), cameraDirection, punchDirection);
+    this.replayRecorder.record(frame);
+    return frame;
   }
 
   private updateCamera(deltaTime: number) {
-    this.cameraController.setTarget(this.player.getPosition());
+    this.cameraController.setTarget(this.simulation.getPlayer().getRenderPosition());
     this.cameraController.update(deltaTime);
   }
 
-  private handleCollisionEvent(event: any) {
-    switch (event.type) {
-      case 'meteor_hit_creature':
-        this.aliveCreatures = this.creatures.filter(c => c.isCreatureAlive()).length;
-        console.log(`Creature destroyed! Remaining: ${this.aliveCreatures}`);
-        break;
-      case 'punch_hit_meteor':
-        console.log('Meteor destroyed by punch!');
-        // Create particle effect at meteor position
-        this.effectsSystem.createMeteorDestructionEffect(event.data.position);
-        break;
-      case 'meteor_hit_player':
-        console.log('Player hit by meteor!');
-        // TODO: Add screen shake, effects
-        break;
-      case 'meteor_explosion':
-        // Create explosion effect
-        this.effectsSystem.createMeteorExplosionEffect(event.data.position, event.data.radius);
-        break;
-    }
+  private interpolateEntities(alpha: number) {
+    this.simulation.getPlayer().interpolate(alpha);
+    this.simulation.getCreatures().forEach(creature => creature.interpolate(alpha));
+    this.simulation.getMeteorSpawner().getMeteors().forEach(meteor => meteor.interpolate(alpha));
   }
 
-  private checkGameConditions() {
-    // Lose condition: all creatures dead
-    if (this.aliveCreatures <= 0) {
-      this.stateMachine.transitionTo(GameState.Result);
-      return;
+  private startGame(replay: Replay | null) {
+    this.isGameRunning = true;
+    this.replayRecorder.cancel();
+
+    if (replay) {
+      // Playback owns the tuning; keep the slider values for afterwards
+      this.replayPlayer = new ReplayPlayer(replay);
+      this.liveTuning = this.simulation.getTuning();
+      this.simulation.setTuning(replay.tuning);
+      this.useDifficulty(replay.difficulty);
+      this.simulation.startMatch(replay.seed);
+      console.log(`Watching replay (seed ${replay.seed})`);
+    } else {
+      this.useDifficulty(this.difficulty);
+      this.simulation.startMatch(this.fixedSeed ?? Random.generateSeed());
+      this.replayRecorder.start(
+        this.simulation.getSeed(),
+        this.difficulty,
+        this.simulation.getTuning(),
+        1 / Time.instance.fixedDeltaTime
+      );
+      console.log(`Match seed: ${this.simulation.getSeed()} (${DIFFICULTY_PRESETS[this.difficulty].label})`);
     }
-    
-    // Win condition: timer reaches 0
-    if (this.gameTimer <= 0) {
-      this.stateMachine.transitionTo(GameState.Result);
-      return;
+  }
+
+  // Switching rebuilds the arena, so only do it when the difficulty actually changes
+  private useDifficulty(difficulty: DifficultyId) {
+    if (this.simulation.getDifficulty() !== difficulty) {
+      this.simulation.setDifficulty(difficulty);
     }
   }
 
-  private startGame() {
-    this.isGameRunning = true;
-    this.gameTimer = 60;
-    this.aliveCreatures = 3;
-    
-    // Reset entities
-    this.meteorSpawner.reset();
-    
-    // Reset creatures
-    const spawnPositions = Creature.createSpawnPositions();
-    this.creatures.forEach(creature => {
-      const group = creature.getMesh();
-      if (group.parent) {
-        group.parent.remove(group);
+  private endGame(keepReplay: boolean) {
+    this.isGameRunning = false;
+    this.aimAssist.clear();
+    this.hud.hide();
+
+    if (keepReplay) {
+      const replay = this.replayRecorder.finish(this.simulation.getResult());
+      if (replay) {
+        this.lastReplay = replay;
+        this.storeReplay(replay);
       }
-    });
-    
-    this.creatures = spawnPositions.map(pos => new Creature(pos));
-    this.creatures.forEach(creature => this.scene.add(creature.getMesh()));
-    
-    this.hideTitleUI();
+    } else {
+      this.replayRecorder.cancel();
+    }
+
+    if (this.replayPlayer) {
+      this.replayPlayer = null;
+      if (this.liveTuning) {
+        this.simulation.setTuning(this.liveTuning);
+        this.liveTuning = null;
+      }
+    }
   }
 
-  private render() {
-    this.renderer.render(this.scene, this.cameraController.getCamera());
+  // Only valid from the title or result screen; the transition table refuses anything else
+  playReplay(replay: Replay) {
+    this.stateMachine.transitionTo(GameState.Play, { replay });
   }
 
-  private showTitleUI() {
-    // Simple title display
-    const titleDiv = document.createElement('div');
-    titleDiv.id = 'title-ui';
-    titleDiv.style.cssText = `
-      position: fixed;
-      top: 50%;
-      left: 50%;
-      transform: translate(-50%, -50%);
-      color: white;
-      text-align: center;
-      font-size: 24px;
-      z-index: 100;
-    `;
-    titleDiv.innerHTML = `
-      <h1>Meteor Punch Garden</h1>
-      <p>Press SPACE or J to start</p>
-      <p>WASD to move, SPACE to jump, J to punch</p>
-    `;
-    document.body.appendChild(titleDiv);
-  }
-
-  private hideTitleUI() {
-    const titleUI = document.getElementById('title-ui');
-    if (titleUI) {
-      document.body.removeChild(titleUI);
+  private storeReplay(replay: Replay) {
+    try {
+      localStorage.setItem('mpg_last_replay', serializeReplay(replay));
+    } catch {
+      // Storage full or unavailable - the in-memory replay is still usable
     }
   }
 
-  private showResultUI() {
-    const won = this.aliveCreatures > 0;
-    const resultDiv = document.createElement('div');
-    resultDiv.id = 'result-ui';
-    resultDiv.style.cssText = `
-      position: fixed;
-      top: 50%;
-      left: 50%;
-      transform: translate(-50%, -50%);
-      color: white;
-      text-align: center;
-      font-size: 24px;
-      z-index: 100;
-    `;
-    resultDiv.innerHTML = `
-      <h1>${won ? 'SURVIVED!' : 'EXTINCT...'}</h1>
-      <p>Creatures remaining: ${this.aliveCreatures}</p>
-      <p>Press SPACE to retry, J for title</p>
-    `;
-    document.body.appendChild(resultDiv);
-    
-    setTimeout(() => {
-      if (resultDiv.parentNode) {
-        document.body.removeChild(resultDiv);
-      }
-    }, 5000);
+  private downloadReplay(replay: Replay) {
+    const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `mpg-replay-${replay.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  // Called once per display frame, after any simulation ticks
+  private render(alpha: number) {
+    // Entities are frozen outside of play and during hit-stop, so snap them to their latest state
+    const frozen = !this.isGameRunning || this.simulation.isFrozen();
+    this.interpolateEntities(frozen ? 1 : alpha);
+    this.terrain.update(); // Pick up new craters
+
+    if (this.isGameRunning) {
+      this.updateCamera(Time.instance.deltaTime);
+    }
+    this.targetMarker.update(this.aimAssist.getTarget(), this.cameraController.getCamera(), Time.instance.deltaTime);
+
+    this.renderer.render(this.scene, this.cameraController.getCamera());
+  }
+
+  private static readSeedFromUrl(): number | null {
+    const param = new URLSearchParams(window.location.search).get('seed');
+    if (param === null) return null;
+
+    const seed = Number(param);
+    return Number.isFinite(seed) ? seed >>> 0 : null;
   }
 
   start() {
     console.log('Game starting...');
-    // Manually trigger Boot state
-    const bootHandler = this.stateMachine['stateHandlers'].get(GameState.Boot);
-    if (bootHandler?.onEnter) {
-      bootHandler.onEnter();
-    }
+    this.stateMachine.start();
     this.gameLoop.start();
   }
 
   dispose() {
     this.gameLoop.stop();
     this.renderer.dispose();
+    this.terrain.dispose();
     this.cameraController.dispose();
     this.inputManager.dispose();
     this.effectsSystem.dispose();
+    this.targetMarker.dispose();
     this.hud.dispose();
+    this.pauseOverlay.dispose();
+    this.titleScreen.dispose();
+    this.resultScreen.dispose();
+    this.screenFader.dispose();
+    window.removeEventListener('keydown', this.onPauseKey);
+    document.removeEventListener('visibilitychange', this.onVisibilityChange);
+    window.removeEventListener('blur', this.onWindowBlur);
   }
 }
\ No newline at end of file
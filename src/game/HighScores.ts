@@ -0,0 +1,90 @@
+import { MatchResult } from './Simulation';
+import { DifficultyId, DIFFICULTY_PRESETS, isDifficultyId } from './DifficultyPresets';
+
+// Best result per difficulty, kept in localStorage (spec 8).
+// Surviving beats going extinct; then more survivors, or a longer last stand.
+
+export interface HighScore {
+  survived: boolean;
+  survivors: number;
+  timeSurvived: number;
+  seed: number;
+}
+
+type HighScoreTable = Partial<Record<DifficultyId, HighScore>>;
+
+export class HighScores {
+  private static readonly storageKey = 'mpg_highscore';
+  private scores: HighScoreTable;
+
+  constructor() {
+    this.scores = HighScores.load();
+  }
+
+  get(difficulty: DifficultyId): HighScore | null {
+    return this.scores[difficulty] ?? null;
+  }
+
+  // Returns true when the result is a new best for its difficulty
+  submit(result: MatchResult): boolean {
+    const score: HighScore = {
+      survived: result.outcome === 'survived',
+      survivors: result.survivors,
+      // Falls put time back on the countdown, so each one costs its penalty here
+      timeSurvived: Math.max(0, DIFFICULTY_PRESETS[result.difficulty].matchDuration - result.timeRemaining),
+      seed: result.seed
+    };
+
+    const best = this.scores[result.difficulty];
+    if (best && HighScores.compare(score, best) <= 0) return false;
+
+    this.scores[result.difficulty] = score;
+    this.save();
+    return true;
+  }
+
+  static compare(a: HighScore, b: HighScore): number {
+    if (a.survived !== b.survived) return a.survived ? 1 : -1;
+    if (a.survived) return a.survivors - b.survivors;
+    return a.timeSurvived - b.timeSurvived;
+  }
+
+  static describe(score: HighScore): string {
+    return score.survived
+      ? `Survived with ${score.survivors} creature${score.survivors === 1 ? '' : 's'}`
+      : `Lasted ${score.timeSurvived.toFixed(1)}s`;
+  }
+
+  private save() {
+    try {
+      localStorage.setItem(HighScores.storageKey, JSON.stringify(this.scores));
+    } catch {
+      // Storage full or unavailable - scores still last for this session
+    }
+  }
+
+  // Anything unreadable falls back to no scores rather than breaking the game
+  private static load(): HighScoreTable {
+    try {
+      const data = JSON.parse(localStorage.getItem(HighScores.storageKey) ?? '{}');
+      const table: HighScoreTable = {};
+      for (const [difficulty, score] of Object.entries(data ?? {})) {
+        if (isDifficultyId(difficulty) && HighScores.isHighScore(score)) {
+          table[difficulty] = score;
+        }
+      }
+      return table;
+    } catch {
+      return {};
+    }
+  }
+
+  private static isHighScore(value: unknown): value is HighScore {
+    const score = value as HighScore;
+    return typeof score === 'object' && score !== null &&
+      typeof score.survived === 'boolean' &&
+      typeof score.survivors === 'number' &&
+      typeof score.timeSurvived === 'number' &&
+      typeof score.seed === 'number';
+  }
+}
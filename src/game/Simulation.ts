@@ -0,0 +1,382 @@
+import * as THREE from 'three';
+import { Random } from './core/Random';
+import { TimeEffectStack, TimeChannel, TimeEffectDefinition, TIME_EFFECTS } from './core/TimeEffects';
+import { EventBus } from './core/EventBus';
+import { GameEvent, GameEventBus } from './core/GameEvents';
+import { World } from './core/World';
+import { Heightfield } from './core/Heightfield';
+import { InputState } from './input/InputManager';
+import { Player, DEFAULT_JUMP_RULES } from './entities/Player';
+import { Creature } from './entities/Creature';
+import { MeteorSpawner } from './systems/MeteorSpawner';
+import { CollisionSystem } from './systems/CollisionSystem';
+import { CarrySystem } from './systems/CarrySystem';
+import { DifficultyDirector } from './systems/DifficultyDirector';
+import { DifficultyId, DifficultyPreset, DIFFICULTY_PRESETS } from './DifficultyPresets';
+
+// Pure gameplay rules: timer, creatures, meteors and collisions.
+// Touches no DOM, renderer or live input, so whole matches can run in Node.
+// Entities still build Three.js scene-graph objects, which need no WebGL context;
+// attach getWorld().getRoot() to a scene to draw them.
+
+export type MatchOutcome = 'running' | 'survived' | 'extinct' | 'fell';
+
+export interface SimulationTuning {
+  playerMoveSpeed: number;
+  meteorSpeed: number;
+  meteorFrequency: number;
+  airJumps: number;          // Extra jumps in mid-air
+  wallJumps: number;         // Wall jumps before touching the ground again
+  wallSlideFriction: number; // 0 slides down walls at full speed, 1 sticks in place
+}
+
+export interface MatchResult {
+  seed: number;
+  difficulty: DifficultyId;
+  outcome: MatchOutcome;
+  survivors: number;
+  timeRemaining: number;
+  ticks: number;
+  bossDefeated: boolean; // Won early by beating a match-ending boss
+  falls: number;
+}
+
+export const DEFAULT_TUNING: SimulationTuning = {
+  playerMoveSpeed: 4.0,
+  meteorSpeed: 12,
+  meteorFrequency: 1.0,
+  ...DEFAULT_JUMP_RULES
+};
+
+export class Simulation {
+  private world = new World();
+  private player: Player;
+  private meteorSpawner: MeteorSpawner;
+  private collisionSystem: CollisionSystem;
+  private carrySystem: CarrySystem;
+  private director: DifficultyDirector;
+  private tuning: SimulationTuning;
+  private timeEffects = new TimeEffectStack();
+  private events: GameEventBus = new EventBus<GameEvent>();
+  private difficulty: DifficultyPreset = DIFFICULTY_PRESETS.normal;
+
+  // Match state
+  private matchDuration = this.difficulty.matchDuration;
+  private seed = 0;
+  private timeRemaining = this.matchDuration;
+  private aliveCreatures = 0;
+  private totalCreatures = 0;
+  private ticks = 0;
+  private outcome: MatchOutcome = 'running';
+  private bossDefeated = false;
+  private falls = 0;
+  private frozen = false; // Last tick was swallowed by hit-stop
+  private heldPresses = { jump: false, punch: false, grab: false }; // Pressed during hit-stop
+
+  // Explosions leave craters this much smaller than their blast
+  private readonly craterScale = 0.5;
+  private readonly maxCraterRadius = 2.5;
+  private readonly craterDepth = 0.25;
+
+  constructor(tuning: Partial<SimulationTuning> = {}, difficulty: DifficultyId = 'normal') {
+    this.tuning = { ...DEFAULT_TUNING, ...tuning };
+
+    this.player = this.world.spawn(new Player());
+    this.meteorSpawner = new MeteorSpawner(this.world, this.events);
+    this.collisionSystem = new CollisionSystem(this.events);
+    this.carrySystem = new CarrySystem(this.events);
+    this.director = new DifficultyDirector(this.world, this.events);
+
+    this.events.on('punch_hit', () => this.pushTimeEffect(TIME_EFFECTS.hitStop));
+    this.events.on('meteor_damaged', () => this.pushTimeEffect(TIME_EFFECTS.hitStop));
+    this.events.on('meteor_explosion', ({ position, radius }) => {
+      Heightfield.instance.carveCrater(position.x, position.z, Math.min(radius * this.craterScale, this.maxCraterRadius), this.craterDepth);
+    });
+    this.events.on('boss_defeated', ({ onDefeat }) => {
+      if (onDefeat === 'end-match') this.bossDefeated = true;
+    });
+    // Every fall puts time back on the survival countdown, so the player has to hold out longer
+    this.events.on('player_fell', ({ penalty }) => {
+      this.timeRemaining += penalty;
+    });
+
+    this.setDifficulty(difficulty);
+  }
+
+  startMatch(seed: number) {
+    // Seed all gameplay randomness before anything draws from it
+    this.seed = seed >>> 0;
+    Random.instance.setSeed(this.seed);
+    Heightfield.instance.reset(); // Craters from the last match are gone
+
+    this.timeRemaining = this.matchDuration;
+    this.ticks = 0;
+    this.outcome = 'running';
+    this.bossDefeated = false;
+    this.falls = 0;
+    this.frozen = false;
+    this.heldPresses = { jump: false, punch: false, grab: false };
+    this.timeEffects.clear();
+
+    this.player.reset();
+    this.meteorSpawner.reset();
+    this.director.reset();
+    this.meteorSpawner.setDirectorModifiers(this.director.getModifiers());
+    this.spawnCreatures();
+
+    this.events.emit({ type: 'match_started', seed: this.seed });
+  }
+
+  // Advance the rules by one fixed tick. Movement is relative to aimDirection;
+  // punches go along punchDirection when given, otherwise along aimDirection.
+  step(fixedDeltaTime: number, inputState: InputState, aimDirection?: THREE.Vector3, punchDirection?: THREE.Vector3) {
+    if (this.outcome !== 'running') return;
+
+    this.ticks++;
+
+    // Time effects scale this tick, then count down in real tick time
+    const deltaTime = fixedDeltaTime * this.timeEffects.getScale('gameplay');
+    this.timeEffects.update(fixedDeltaTime);
+    this.frozen = deltaTime <= 0;
+    if (this.frozen) {
+      // Hit-stop: the world holds still, but presses wait for the first tick that runs
+      this.heldPresses.jump = this.heldPresses.jump || inputState.jumpPressed;
+      this.heldPresses.punch = this.heldPresses.punch || inputState.punchPressed;
+      this.heldPresses.grab = this.heldPresses.grab || inputState.grabPressed;
+      return;
+    }
+    inputState = this.releaseHeldPresses(inputState);
+
+    this.timeRemaining = Math.max(0, this.timeRemaining - deltaTime);
+
+    const transition = this.player.update(deltaTime, inputState, aimDirection, punchDirection);
+    if (transition === 'fell') {
+      this.falls++;
+      this.events.emit({
+        type: 'player_fell',
+        player: this.player,
+        position: this.player.getPosition(),
+        falls: this.falls,
+        penalty: this.difficulty.fallPenalty
+      });
+    } else if (transition === 'respawned') {
+      this.events.emit({ type: 'player_respawned', player: this.player, position: this.player.getPosition() });
+    }
+
+    const creatures = this.getCreatures();
+    this.carrySystem.update(this.player, creatures, inputState);
+    // Creatures flee from where meteors will actually land, not where they are
+    const landings = this.meteorSpawner.getPredictedLandings();
+    creatures.forEach(creature => creature.update(deltaTime, landings));
+
+    const creaturePositions = creatures
+      .filter(creature => creature.isCreatureAlive())
+      .map(creature => creature.getPosition());
+    this.meteorSpawner.update(deltaTime, creaturePositions, this.player.getPosition());
+
+    this.collisionSystem.update(this.player, creatures, this.meteorSpawner.getMeteors());
+    this.meteorSpawner.removeFinishedMeteors();
+
+    const decision = this.director.update(deltaTime);
+    if (decision) {
+      this.meteorSpawner.setDirectorModifiers(decision.after);
+      this.events.emit({ type: 'director_adjusted', decision });
+    }
+
+    const previousAlive = this.aliveCreatures;
+    this.aliveCreatures = creatures.filter(c => c.isCreatureAlive()).length;
+    if (previousAlive > 1 && this.aliveCreatures === 1) {
+      this.pushTimeEffect(TIME_EFFECTS.lastCreatureSlowMo);
+    }
+
+    this.checkMatchConditions();
+  }
+
+  // Convenience for tests and balance scripts: play a whole match without rendering
+  runMatch(seed: number, getInput: (tick: number) => InputState, deltaTime = 1 / 60): MatchResult {
+    this.startMatch(seed);
+    while (this.outcome === 'running') {
+      this.step(deltaTime, getInput(this.ticks));
+    }
+    return this.getResult();
+  }
+
+  pushTimeEffect(definition: TimeEffectDefinition) {
+    this.timeEffects.push(definition);
+    this.events.emit({ type: 'time_effect_started', name: definition.name });
+  }
+
+  private checkMatchConditions() {
+    // Losing takes priority when both happen on the same tick
+    const fallLimit = this.difficulty.fallLimit;
+    if (this.aliveCreatures <= 0) {
+      this.outcome = 'extinct';
+    } else if (fallLimit !== null && this.falls >= fallLimit) {
+      this.outcome = 'fell';
+    } else if (this.timeRemaining <= 0 || this.bossDefeated) {
+      this.outcome = 'survived';
+    }
+
+    if (this.outcome !== 'running') {
+      this.events.emit({ type: 'match_ended', result: this.getResult() });
+    }
+  }
+
+  private spawnCreatures() {
+    this.world.clear(Creature);
+    this.carrySystem.reset();
+
+    const spawnPositions = Creature.createSpawnPositions();
+    spawnPositions.forEach(pos => {
+      const creature = this.world.spawn(new Creature(pos));
+      creature.setFleeBehaviour(this.difficulty.creatureFleeDistance, this.difficulty.creatureFleeSpeed);
+    });
+
+    this.totalCreatures = spawnPositions.length;
+    this.aliveCreatures = this.totalCreatures;
+  }
+
+  private applyTuning() {
+    this.player.setMoveSpeed(this.tuning.playerMoveSpeed * this.difficulty.playerSpeedMultiplier);
+    this.player.setJumpRules({
+      airJumps: this.tuning.airJumps,
+      wallJumps: this.tuning.wallJumps,
+      wallSlideFriction: this.tuning.wallSlideFriction
+    });
+    this.meteorSpawner.setMeteorSpeed(this.tuning.meteorSpeed * this.difficulty.meteorSpeedMultiplier);
+    this.meteorSpawner.setFrequencyMultiplier(this.tuning.meteorFrequency);
+  }
+
+  // Call between matches: swapping the wave script clears meteors and resets the creatures
+  setDifficulty(id: DifficultyId) {
+    this.difficulty = DIFFICULTY_PRESETS[id];
+    this.matchDuration = this.difficulty.matchDuration;
+    this.timeRemaining = this.matchDuration;
+
+    this.meteorSpawner.setWaveScript(this.difficulty.waveScript);
+    this.meteorSpawner.setExplosionRules(this.difficulty.explosionRadiusMultiplier, this.difficulty.beginnerExplosion);
+    this.player.setPunchRadius(this.difficulty.punchRadius);
+    this.applyTuning();
+    this.spawnCreatures();
+  }
+
+  getDifficulty(): DifficultyId {
+    return this.difficulty.id;
+  }
+
+  setTuning(tuning: Partial<SimulationTuning>) {
+    this.tuning = { ...this.tuning, ...tuning };
+    this.applyTuning();
+  }
+
+  getTuning(): SimulationTuning {
+    return { ...this.tuning };
+  }
+
+  // Merge presses made during hit-stop into the first tick after it
+  private releaseHeldPresses(inputState: InputState): InputState {
+    const held = this.heldPresses;
+    if (!held.jump && !held.punch && !held.grab) return inputState;
+
+    this.heldPresses = { jump: false, punch: false, grab: false };
+    return {
+      ...inputState,
+      jumpPressed: inputState.jumpPressed || held.jump,
+      punchPressed: inputState.punchPressed || held.punch,
+      grabPressed: inputState.grabPressed || held.grab
+    };
+  }
+
+  // Scale the presentation layer should apply to a channel this tick
+  getTimeScale(channel: TimeChannel): number {
+    return this.timeEffects.getScale(channel);
+  }
+
+  // True when the last tick moved nothing; entities' previous positions are stale then
+  isFrozen(): boolean {
+    return this.frozen;
+  }
+
+  getTimeEffects(): TimeEffectStack {
+    return this.timeEffects;
+  }
+
+  // Subscribe here to react to anything that happens in a match
+  getEventBus(): GameEventBus {
+    return this.events;
+  }
+
+  getResult(): MatchResult {
+    return {
+      seed: this.seed,
+      difficulty: this.difficulty.id,
+      outcome: this.outcome,
+      survivors: this.aliveCreatures,
+      timeRemaining: this.timeRemaining,
+      ticks: this.ticks,
+      bossDefeated: this.bossDefeated,
+      falls: this.falls
+    };
+  }
+
+  getWorld(): World {
+    return this.world;
+  }
+
+  getPlayer(): Player {
+    return this.player;
+  }
+
+  getCreatures(): Creature[] {
+    return this.world.query(Creature);
+  }
+
+  getDirector(): DifficultyDirector {
+    return this.director;
+  }
+
+  getCarrySystem(): CarrySystem {
+    return this.carrySystem;
+  }
+
+  getMeteorSpawner(): MeteorSpawner {
+    return this.meteorSpawner;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  getMatchDuration(): number {
+    return this.matchDuration;
+  }
+
+  getTimeRemaining(): number {
+    return this.timeRemaining;
+  }
+
+  getFalls(): number {
+    return this.falls;
+  }
+
+  // Null when falling never loses the match
+  getFallLimit(): number | null {
+    return this.difficulty.fallLimit;
+  }
+
+  getAliveCreatures(): number {
+    return this.aliveCreatures;
+  }
+
+  getTotalCreatures(): number {
+    return this.totalCreatures;
+  }
+
+  getOutcome(): MatchOutcome {
+    return this.outcome;
+  }
+
+  isRunning(): boolean {
+    return this.outcome === 'running';
+  }
+}
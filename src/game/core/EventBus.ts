@@ -0,0 +1,45 @@
+// Strongly typed publish/subscribe over a discriminated union of events.
+// Handlers receive the exact payload for the event type they subscribed to.
+
+type EventType<TEvent extends { type: string }> = TEvent['type'];
+type EventOfType<TEvent extends { type: string }, K extends EventType<TEvent>> = Extract<TEvent, { type: K }>;
+
+export type Unsubscribe = () => void;
+
+export class EventBus<TEvent extends { type: string }> {
+  private handlers = new Map<EventType<TEvent>, Set<(event: TEvent) => void>>();
+  private anyHandlers = new Set<(event: TEvent) => void>();
+
+  on<K extends EventType<TEvent>>(type: K, handler: (event: EventOfType<TEvent, K>) => void): Unsubscribe {
+    let handlers = this.handlers.get(type);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(type, handlers);
+    }
+
+    // Safe: emit() only dispatches events of this type to this set
+    const untypedHandler = handler as (event: TEvent) => void;
+    handlers.add(untypedHandler);
+    return () => handlers.delete(untypedHandler);
+  }
+
+  // Every event, e.g. for logging or analytics
+  onAny(handler: (event: TEvent) => void): Unsubscribe {
+    this.anyHandlers.add(handler);
+    return () => this.anyHandlers.delete(handler);
+  }
+
+  emit(event: TEvent) {
+    const handlers = this.handlers.get(event.type);
+    if (handlers) {
+      // Copy so handlers may unsubscribe while being notified
+      [...handlers].forEach(handler => handler(event));
+    }
+    [...this.anyHandlers].forEach(handler => handler(event));
+  }
+
+  clear() {
+    this.handlers.clear();
+    this.anyHandlers.clear();
+  }
+}
@@ -0,0 +1,38 @@
+import * as THREE from 'three';
+import { EventBus } from './EventBus';
+import { GameState } from './GameState';
+import { Meteor, MeteorChain } from '../entities/Meteor';
+import { Creature } from '../entities/Creature';
+import { Player, PunchMove } from '../entities/Player';
+import { MatchResult } from '../Simulation';
+import { DirectorDecision } from '../systems/DifficultyDirector';
+import { BossDefeatOutcome } from '../waves/WaveScript';
+
+export type GameEvent =
+  | { type: 'match_started'; seed: number }
+  | { type: 'match_ended'; result: MatchResult }
+  | { type: 'state_changed'; from: GameState; to: GameState }
+  | { type: 'meteor_spawned'; meteor: Meteor; target: THREE.Vector3 }
+  | { type: 'telegraph_started'; meteor: Meteor; position: THREE.Vector3; duration: number }
+  | { type: 'punch_hit'; meteor: Meteor; player: Player; position: THREE.Vector3; move: PunchMove; deflected: boolean; chain: MeteorChain }
+  | { type: 'meteor_damaged'; meteor: Meteor; player: Player; position: THREE.Vector3; move: PunchMove }
+  | { type: 'meteor_split'; meteor: Meteor; fragments: Meteor[] }
+  | { type: 'meteor_chain_hit'; meteor: Meteor; projectile: Meteor; position: THREE.Vector3; chain: MeteorChain }
+  | { type: 'meteor_left_stage'; meteor: Meteor; position: THREE.Vector3; chain: MeteorChain | null }
+  | { type: 'boss_spawned'; meteor: Meteor; onDefeat: BossDefeatOutcome }
+  | { type: 'boss_shed'; meteor: Meteor; fragments: Meteor[] }
+  | { type: 'boss_defeated'; meteor: Meteor; onDefeat: BossDefeatOutcome; position: THREE.Vector3 }
+  | { type: 'meteor_explosion'; meteor: Meteor; position: THREE.Vector3; radius: number }
+  | { type: 'creature_died'; creature: Creature; meteor: Meteor; position: THREE.Vector3; directHit: boolean }
+  | { type: 'player_knocked_back'; player: Player; meteor: Meteor; position: THREE.Vector3; direction: THREE.Vector3; directHit: boolean }
+  | { type: 'player_fell'; player: Player; position: THREE.Vector3; falls: number; penalty: number }
+  | { type: 'player_respawned'; player: Player; position: THREE.Vector3 }
+  | { type: 'creature_picked_up'; creature: Creature; player: Player }
+  | { type: 'creature_released'; creature: Creature; player: Player; thrown: boolean }
+  | { type: 'creature_landed'; creature: Creature; position: THREE.Vector3 }
+  | { type: 'time_effect_started'; name: string }
+  | { type: 'director_adjusted'; decision: DirectorDecision };
+
+export type GameEventType = GameEvent['type'];
+
+export type GameEventBus = EventBus<GameEvent>;
@@ -3,8 +3,13 @@ import { Time } from './Time';
 export class GameLoop {
   private isRunning = false;
   private animationId: number | null = null;
+  private accumulator = 0;
   private updateCallback: (deltaTime: number) => void = () => {};
-  private renderCallback: () => void = () => {};
+  private renderCallback: (alpha: number) => void = () => {};
+
+  // Fixed-step parameters
+  private readonly maxStepsPerFrame = 5; // Avoid spiral of death on slow frames
+  private readonly maxFrameTime = 0.25; // Clamp long stalls (tab switch, breakpoints)
 
   constructor() {
     this.loop = this.loop.bind(this);
@@ -14,7 +19,7 @@ export class GameLoop {
     this.updateCallback = callback;
   }
 
-  setRenderCallback(callback: () => void) {
+  setRenderCallback(callback: (alpha: number) => void) {
     this.renderCallback = callback;
   }
 
@@ -22,6 +27,8 @@ export class GameLoop {
     if (this.isRunning) return;
     
     this.isRunning = true;
+    this.accumulator = 0;
+    Time.instance.reset();
     this.loop(performance.now());
   }
 
@@ -37,10 +44,27 @@ export class GameLoop {
     if (!this.isRunning) return;
 
     Time.instance.update(currentTime);
-    
-    this.updateCallback(Time.instance.deltaTime);
-    this.renderCallback();
+
+    const fixedDeltaTime = Time.instance.fixedDeltaTime;
+    this.accumulator += Math.min(Time.instance.deltaTime, this.maxFrameTime);
+
+    // Run the simulation in fixed increments so gameplay is identical at any refresh rate
+    let steps = 0;
+    while (this.accumulator >= fixedDeltaTime && steps < this.maxStepsPerFrame) {
+      this.updateCallback(fixedDeltaTime);
+      this.accumulator -= fixedDeltaTime;
+      steps++;
+    }
+
+    // Drop any backlog we could not catch up on instead of carrying it forward
+    if (this.accumulator >= fixedDeltaTime) {
+      this.accumulator %= fixedDeltaTime;
+    }
+
+    const alpha = this.accumulator / fixedDeltaTime;
+    Time.instance.setInterpolationAlpha(alpha);
+    this.renderCallback(alpha);
 
     this.animationId = requestAnimationFrame(this.loop);
   }
-}
\ No newline at end of file
+}
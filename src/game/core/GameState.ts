@@ -1,11 +1,30 @@
+import { MatchResult } from '../Simulation';
+import { Replay } from '../replay/Replay';
+
 export enum GameState {
   Boot = 'boot',
   Title = 'title',
   Play = 'play',
+  Pause = 'pause',
   Result = 'result'
 }
 
+export type PauseReason = 'key' | 'hidden' | 'blur' | 'menu';
+
+// Data carried into each state on entry (undefined = no payload)
+export interface GameStatePayloads {
+  [GameState.Boot]: undefined;
+  [GameState.Title]: undefined;
+  [GameState.Play]: { replay?: Replay } | undefined;
+  [GameState.Pause]: { reason: PauseReason };
+  [GameState.Result]: { result: MatchResult; wasReplay: boolean };
+}
+
+export type StatePayload<S extends GameState> = GameStatePayloads[S];
+
 export type StateTransition = {
   from: GameState;
   to: GameState;
-};
\ No newline at end of file
+  // Optional predicate; the transition is refused when it returns false
+  guard?: (payload: StatePayload<GameState>) => boolean;
+};
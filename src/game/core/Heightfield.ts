@@ -0,0 +1,116 @@
+// Terrain heights on a regular grid over the stage.
+// The single source of truth for the ground: height queries and the terrain mesh
+// both read these samples, so craters carved into it change where things walk
+// and what is drawn at the same time. Reset at the start of every match.
+
+// Rolling hills the stage starts each match with
+function baseHeight(x: number, z: number): number {
+  const planeY = -z; // The terrain mesh lies in a plane rotated -90° around X, so plane Y = -world Z
+  return (
+    Math.sin(x * 0.8) * Math.cos(planeY * 0.8) * 0.3 +
+    Math.sin(x * 1.5 + 1) * Math.sin(planeY * 1.2 + 0.5) * 0.2 +
+    Math.cos(x * 0.5 - planeY * 0.7) * 0.15
+  );
+}
+
+export class Heightfield {
+  private static _instance: Heightfield;
+
+  readonly size = 10;     // Width and depth of the stage
+  readonly segments = 32; // Grid cells per side, matching the mesh
+  private readonly spacing = this.size / this.segments;
+  readonly minHeight = -1.0; // Craters never dig through the bottom of the stage base
+
+  private samples = new Float32Array((this.segments + 1) * (this.segments + 1));
+  private version = 0;
+
+  static get instance(): Heightfield {
+    if (!Heightfield._instance) {
+      Heightfield._instance = new Heightfield();
+    }
+    return Heightfield._instance;
+  }
+
+  constructor() {
+    this.reset();
+  }
+
+  // Back to untouched hills
+  reset() {
+    for (let j = 0; j <= this.segments; j++) {
+      for (let i = 0; i <= this.segments; i++) {
+        this.samples[this.index(i, j)] = baseHeight(this.toWorld(i), this.toWorld(j));
+      }
+    }
+    this.version++;
+  }
+
+  // Ground height under a point, interpolated across the same triangles the mesh draws.
+  // Off the grid the untouched hills continue, so paths past the edge stay smooth.
+  getHeight(x: number, z: number): number {
+    const gx = (x + this.size / 2) / this.spacing;
+    const gz = (z + this.size / 2) / this.spacing;
+    if (gx < 0 || gz < 0 || gx > this.segments || gz > this.segments) {
+      return baseHeight(x, z);
+    }
+
+    const i = Math.min(Math.floor(gx), this.segments - 1);
+    const j = Math.min(Math.floor(gz), this.segments - 1);
+    const fx = gx - i;
+    const fz = gz - j;
+
+    const h00 = this.samples[this.index(i, j)];
+    const h10 = this.samples[this.index(i + 1, j)];
+    const h01 = this.samples[this.index(i, j + 1)];
+    const h11 = this.samples[this.index(i + 1, j + 1)];
+
+    // Each cell is split along the diagonal from (i, j + 1) to (i + 1, j)
+    if (fx + fz <= 1) {
+      return h00 + (h10 - h00) * fx + (h01 - h00) * fz;
+    }
+    return h11 + (h01 - h11) * (1 - fx) + (h10 - h11) * (1 - fz);
+  }
+
+  // Press a smooth bowl into the ground, deepest at the center
+  carveCrater(x: number, z: number, radius: number, depth: number) {
+    if (radius <= 0 || depth <= 0) return;
+
+    const minI = Math.max(0, Math.floor((x - radius + this.size / 2) / this.spacing));
+    const maxI = Math.min(this.segments, Math.ceil((x + radius + this.size / 2) / this.spacing));
+    const minJ = Math.max(0, Math.floor((z - radius + this.size / 2) / this.spacing));
+    const maxJ = Math.min(this.segments, Math.ceil((z + radius + this.size / 2) / this.spacing));
+    if (minI > maxI || minJ > maxJ) return; // Entirely off the stage
+
+    for (let j = minJ; j <= maxJ; j++) {
+      for (let i = minI; i <= maxI; i++) {
+        const dx = this.toWorld(i) - x;
+        const dz = this.toWorld(j) - z;
+        const falloff = 1 - (dx * dx + dz * dz) / (radius * radius);
+        if (falloff <= 0) continue;
+
+        const index = this.index(i, j);
+        const floor = Math.min(this.minHeight, this.samples[index]);
+        this.samples[index] = Math.max(floor, this.samples[index] - depth * falloff * falloff);
+      }
+    }
+    this.version++;
+  }
+
+  // Height at grid corner (i, j); i runs along world X and j along world Z
+  getSample(i: number, j: number): number {
+    return this.samples[this.index(i, j)];
+  }
+
+  // Bumped on every change so views can tell when to rebuild
+  getVersion(): number {
+    return this.version;
+  }
+
+  private index(i: number, j: number): number {
+    return i + j * (this.segments + 1);
+  }
+
+  private toWorld(gridIndex: number): number {
+    return gridIndex * this.spacing - this.size / 2;
+  }
+}
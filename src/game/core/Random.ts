@@ -0,0 +1,107 @@
+// Seeded pseudo-random number generation.
+// Every gameplay random draw goes through a named stream derived from one match seed,
+// so the same seed reproduces the same match. Streams are independent: drawing more
+// cosmetic particles never shifts where the next meteor lands.
+
+export class RandomStream {
+  private state = 0;
+
+  constructor(seed: number) {
+    this.reseed(seed);
+  }
+
+  reseed(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Mulberry32 - small, fast and good enough for gameplay
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  // Integer in [min, max)
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max));
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length)];
+  }
+
+  // Key chosen with probability proportional to its weight; zero weights never win
+  weighted<K extends string>(weights: Partial<Record<K, number>>): K {
+    const entries = (Object.entries(weights) as [K, number][]).filter(([, weight]) => weight > 0);
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+
+    let roll = this.next() * total;
+    for (const [key, weight] of entries) {
+      roll -= weight;
+      if (roll < 0) return key;
+    }
+    return entries[entries.length - 1][0];
+  }
+}
+
+export class Random {
+  private static _instance: Random;
+
+  private seed: number;
+  private streams = new Map<string, RandomStream>();
+
+  static get instance(): Random {
+    if (!Random._instance) {
+      Random._instance = new Random();
+    }
+    return Random._instance;
+  }
+
+  constructor(seed: number = Random.generateSeed()) {
+    this.seed = seed >>> 0;
+  }
+
+  // Reseed every stream, including ones already handed out
+  setSeed(seed: number) {
+    this.seed = seed >>> 0;
+    this.streams.forEach((stream, name) => stream.reseed(this.deriveSeed(name)));
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  stream(name: string): RandomStream {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = new RandomStream(this.deriveSeed(name));
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+
+  private deriveSeed(name: string): number {
+    // FNV-1a hash of the stream name mixed with the match seed
+    let hash = 0x811c9dc5 ^ this.seed;
+    for (let i = 0; i < name.length; i++) {
+      hash ^= name.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  // Non-deterministic seed for a fresh match
+  static generateSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+  }
+}
@@ -1,60 +1,189 @@
-import { GameState } from './GameState';
+import { GameState, StatePayload, StateTransition } from './GameState';
+
+export interface StateMachineConfig {
+  initial: GameState;
+  transitions: StateTransition[];
+}
+
+export interface TransitionRecord {
+  from: GameState | null; // null for the initial entry
+  to: GameState;
+  timestamp: number;
+  payload?: unknown;
+}
+
+interface PendingTransition {
+  to: GameState;
+  payload: unknown;
+}
+
+// Optional payload argument when the target state takes none
+type PayloadArgs<S extends GameState> =
+  undefined extends StatePayload<S> ? [payload?: StatePayload<S>] : [payload: StatePayload<S>];
 
 export class StateMachine {
-  private currentState: GameState = GameState.Boot;
+  private currentState: GameState;
+  private targetState: GameState; // Where the in-flight transition is heading
+  private started = false;
+  private transitioning = false; // Exit/enter animation or async onEnter still running
+  private pendingTransitions: PendingTransition[] = [];
   private stateHandlers = new Map<GameState, StateHandler>();
+  private transitions: StateTransition[];
+  private transitionListeners: ((from: GameState, to: GameState) => void)[] = [];
+  private history: TransitionRecord[] = [];
+  private readonly maxHistory = 50;
 
-  constructor() {
-    this.setupValidTransitions();
+  constructor(config: StateMachineConfig) {
+    this.currentState = config.initial;
+    this.targetState = config.initial;
+    this.transitions = [...config.transitions];
   }
 
-  private setupValidTransitions() {
-    // Boot → Title (loading complete)
-    // Title → Play (start game)
-    // Play → Result (game over/clear)
-    // Result → Play (retry)
-    // Result → Title (back to title)
+  addStateHandler<S extends GameState>(state: S, handler: StateHandler<S>) {
+    this.stateHandlers.set(state, handler as StateHandler);
   }
 
-  addStateHandler(state: GameState, handler: StateHandler) {
-    this.stateHandlers.set(state, handler);
+  onTransition(listener: (from: GameState, to: GameState) => void) {
+    this.transitionListeners.push(listener);
   }
 
   getCurrentState(): GameState {
     return this.currentState;
   }
 
-  transitionTo(newState: GameState) {
-    if (!this.canTransitionTo(newState)) {
+  // Enter the initial state; nothing updates before this
+  start() {
+    if (this.started) return;
+    this.started = true;
+
+    this.recordHistory(null, this.currentState, undefined);
+    this.enter(this.currentState, undefined, null);
+  }
+
+  transitionTo<S extends GameState>(newState: S, ...[payload]: PayloadArgs<S>): boolean {
+    if (!this.started) {
+      console.warn(`State machine not started; ignoring transition to ${newState}`);
+      return false;
+    }
+
+    // Queue until the running transition (animations, loading) has finished
+    if (this.transitioning) {
+      const lastQueued = this.pendingTransitions[this.pendingTransitions.length - 1];
+      const headedTo = lastQueued ? lastQueued.to : this.targetState;
+      if (headedTo === newState) return false; // Rapid repeat presses must not double-trigger
+
+      this.pendingTransitions.push({ to: newState, payload });
+      return true;
+    }
+
+    return this.performTransition(newState, payload);
+  }
+
+  private performTransition(newState: GameState, payload: unknown): boolean {
+    const transition = this.findTransition(this.currentState, newState);
+    if (!transition) {
       console.warn(`Invalid transition from ${this.currentState} to ${newState}`);
-      return;
+      return false;
+    }
+
+    if (transition.guard && !transition.guard(payload as StatePayload<GameState>)) {
+      console.log(`Transition from ${this.currentState} to ${newState} blocked by guard`);
+      return false;
+    }
+
+    const oldState = this.currentState;
+    this.targetState = newState;
+    const exitAnimation = this.stateHandlers.get(oldState)?.animateOut?.(newState);
+
+    if (exitAnimation) {
+      this.transitioning = true;
+      exitAnimation
+        .catch(error => console.error(`Error animating out of ${oldState}:`, error))
+        .finally(() => this.completeTransition(oldState, newState, payload));
+    } else {
+      this.completeTransition(oldState, newState, payload);
     }
+    return true;
+  }
 
-    const oldHandler = this.stateHandlers.get(this.currentState);
+  private completeTransition(oldState: GameState, newState: GameState, payload: unknown) {
+    const oldHandler = this.stateHandlers.get(oldState);
     if (oldHandler?.onExit) {
-      oldHandler.onExit();
+      oldHandler.onExit(newState);
     }
 
     this.currentState = newState;
+    this.recordHistory(oldState, newState, payload);
+    this.enter(newState, payload, oldState);
+
+    this.transitionListeners.forEach(listener => listener(oldState, newState));
+  }
+
+  // Runs onEnter and the enter animation side by side; input stays blocked until both finish
+  private enter(state: GameState, payload: unknown, previousState: GameState | null) {
+    const handler = this.stateHandlers.get(state);
+    const pending: Promise<void>[] = [];
+
+    const entered = handler?.onEnter?.(payload as StatePayload<GameState>, previousState);
+    if (entered instanceof Promise) {
+      pending.push(entered);
+    }
 
-    const newHandler = this.stateHandlers.get(this.currentState);
-    if (newHandler?.onEnter) {
-      newHandler.onEnter();
+    const enterAnimation = handler?.animateIn?.(previousState);
+    if (enterAnimation) {
+      pending.push(enterAnimation);
     }
+
+    if (pending.length === 0) {
+      this.transitioning = false;
+      this.flushPendingTransitions();
+      return;
+    }
+
+    this.transitioning = true;
+    Promise.all(pending)
+      .catch(error => console.error(`Error entering ${state}:`, error))
+      .finally(() => {
+        this.transitioning = false;
+        this.flushPendingTransitions();
+      });
   }
 
-  private canTransitionTo(newState: GameState): boolean {
-    const validTransitions: Record<GameState, GameState[]> = {
-      [GameState.Boot]: [GameState.Title],
-      [GameState.Title]: [GameState.Play],
-      [GameState.Play]: [GameState.Result],
-      [GameState.Result]: [GameState.Play, GameState.Title]
-    };
+  private flushPendingTransitions() {
+    while (!this.transitioning && this.pendingTransitions.length > 0) {
+      const next = this.pendingTransitions.shift()!;
+      this.performTransition(next.to, next.payload);
+    }
+  }
 
-    return validTransitions[this.currentState]?.includes(newState) || false;
+  private findTransition(from: GameState, to: GameState): StateTransition | undefined {
+    return this.transitions.find(t => t.from === from && t.to === to);
+  }
+
+  canTransitionTo(newState: GameState): boolean {
+    return this.findTransition(this.currentState, newState) !== undefined;
+  }
+
+  private recordHistory(from: GameState | null, to: GameState, payload: unknown) {
+    this.history.push({ from, to, timestamp: performance.now(), payload });
+    if (this.history.length > this.maxHistory) {
+      this.history.shift();
+    }
+  }
+
+  // Recent transitions, oldest first - handy from the console when debugging flow issues
+  getHistory(): TransitionRecord[] {
+    return [...this.history];
+  }
+
+  // True while a transition is animating or loading; state updates (and so input) are suspended
+  isTransitioning(): boolean {
+    return this.transitioning;
   }
 
   update(deltaTime: number) {
+    if (!this.started || this.transitioning) return;
+
     const handler = this.stateHandlers.get(this.currentState);
     if (handler?.update) {
       handler.update(deltaTime);
@@ -69,9 +198,13 @@ export class StateMachine {
   }
 }
 
-export interface StateHandler {
-  onEnter?: () => void;
-  onExit?: () => void;
+export interface StateHandler<S extends GameState = GameState> {
+  // May return a promise (e.g. asset loading); transitions requested meanwhile are queued
+  onEnter?: (payload: StatePayload<S>, previousState: GameState | null) => void | Promise<void>;
+  onExit?: (nextState: GameState) => void;
+  // Screen animations awaited around the state change
+  animateOut?: (nextState: GameState) => Promise<void> | void;
+  animateIn?: (previousState: GameState | null) => Promise<void> | void;
   update?: (deltaTime: number) => void;
   render?: () => void;
-}
\ No newline at end of file
+}
@@ -2,9 +2,11 @@ export class Time {
   private static _instance: Time;
   
   private _deltaTime = 0;
-  private _lastFrameTime = 0;
+  private _lastFrameTime: number | null = null;
   private _timeScale = 1;
   private _totalTime = 0;
+  private _fixedDeltaTime = 1 / 60; // 60 Hz simulation tick
+  private _interpolationAlpha = 0;
 
   static get instance(): Time {
     if (!Time._instance) {
@@ -14,15 +16,30 @@ export class Time {
   }
 
   update(currentTime: number) {
-    this._deltaTime = (currentTime - this._lastFrameTime) / 1000;
+    // First frame has no previous timestamp, so it contributes no time
+    if (this._lastFrameTime === null) {
+      this._lastFrameTime = currentTime;
+    }
+
+    this._deltaTime = Math.max(0, (currentTime - this._lastFrameTime) / 1000);
     this._lastFrameTime = currentTime;
     this._totalTime += this._deltaTime;
   }
 
+  reset() {
+    this._deltaTime = 0;
+    this._lastFrameTime = null;
+    this._interpolationAlpha = 0;
+  }
+
   get deltaTime(): number {
     return this._deltaTime * this._timeScale;
   }
 
+  get unscaledDeltaTime(): number {
+    return this._deltaTime;
+  }
+
   get totalTime(): number {
     return this._totalTime;
   }
@@ -34,4 +51,17 @@ export class Time {
   set timeScale(value: number) {
     this._timeScale = Math.max(0, value);
   }
-}
\ No newline at end of file
+
+  get fixedDeltaTime(): number {
+    return this._fixedDeltaTime;
+  }
+
+  // Fraction (0..1) of a fixed tick elapsed since the last simulation step
+  get interpolationAlpha(): number {
+    return this._interpolationAlpha;
+  }
+
+  setInterpolationAlpha(alpha: number) {
+    this._interpolationAlpha = Math.max(0, Math.min(1, alpha));
+  }
+}
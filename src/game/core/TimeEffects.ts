@@ -0,0 +1,74 @@
+// Stack of temporary time-scale effects (hit-stop, slow-motion).
+// Each effect scales one or more channels; overlapping effects multiply in push order
+// and expire on their own. Durations count down in unscaled time, so a 0.06 s
+// hit-stop really lasts 0.06 s even though it freezes gameplay.
+
+export type TimeChannel = 'gameplay' | 'effects';
+
+export interface TimeEffectDefinition {
+  name: string;
+  scale: number;
+  duration: number;
+  channels: TimeChannel[];
+}
+
+interface ActiveTimeEffect {
+  definition: TimeEffectDefinition;
+  remaining: number;
+}
+
+export const TIME_EFFECTS = {
+  // Spec 6.1: freeze on meteor destruction
+  hitStop: { name: 'hit-stop', scale: 0, duration: 0.06, channels: ['gameplay', 'effects'] },
+  // Dramatic beat when only one creature is left
+  lastCreatureSlowMo: { name: 'last-creature-slowmo', scale: 0.4, duration: 1.2, channels: ['gameplay', 'effects'] }
+} satisfies Record<string, TimeEffectDefinition>;
+
+export class TimeEffectStack {
+  private effects: ActiveTimeEffect[] = [];
+
+  // Pushing an effect that is already active refreshes it instead of stacking twice
+  push(definition: TimeEffectDefinition) {
+    const existing = this.effects.find(effect => effect.definition.name === definition.name);
+    if (existing) {
+      existing.definition = definition;
+      existing.remaining = Math.max(existing.remaining, definition.duration);
+      return;
+    }
+
+    this.effects.push({ definition, remaining: definition.duration });
+  }
+
+  remove(name: string) {
+    this.effects = this.effects.filter(effect => effect.definition.name !== name);
+  }
+
+  update(unscaledDeltaTime: number) {
+    for (const effect of this.effects) {
+      effect.remaining -= unscaledDeltaTime;
+    }
+    this.effects = this.effects.filter(effect => effect.remaining > 0);
+  }
+
+  getScale(channel: TimeChannel): number {
+    let scale = 1;
+    for (const effect of this.effects) {
+      if (effect.definition.channels.includes(channel)) {
+        scale *= effect.definition.scale;
+      }
+    }
+    return scale;
+  }
+
+  has(name: string): boolean {
+    return this.effects.some(effect => effect.definition.name === name);
+  }
+
+  getActiveEffects(): { name: string; remaining: number }[] {
+    return this.effects.map(effect => ({ name: effect.definition.name, remaining: effect.remaining }));
+  }
+
+  clear() {
+    this.effects = [];
+  }
+}
@@ -0,0 +1,77 @@
+import * as THREE from 'three';
+import { Unsubscribe } from './EventBus';
+
+// Anything that lives in the world: owns a scene-graph object and the GPU
+// resources behind it.
+export interface Entity {
+  getObject3D(): THREE.Object3D;
+  dispose(): void;
+}
+
+type EntityType<T extends Entity> = abstract new (...args: never[]) => T;
+type EntityHook = (entity: Entity) => void;
+
+export interface DespawnOptions {
+  keepResources?: boolean; // Skip dispose() so a pool can reuse the entity
+}
+
+// Single owner of live entities: attaches them to the scene graph on spawn,
+// detaches and disposes them on despawn, and answers type queries.
+export class World {
+  private root = new THREE.Group();
+  private entities: Entity[] = [];
+  private spawnHooks = new Set<EntityHook>();
+  private despawnHooks = new Set<EntityHook>();
+
+  constructor() {
+    this.root.name = 'world';
+  }
+
+  spawn<T extends Entity>(entity: T): T {
+    this.entities.push(entity);
+    this.root.add(entity.getObject3D());
+    this.spawnHooks.forEach(hook => hook(entity));
+    return entity;
+  }
+
+  despawn(entity: Entity, options: DespawnOptions = {}) {
+    const index = this.entities.indexOf(entity);
+    if (index === -1) return;
+
+    this.entities.splice(index, 1);
+    this.root.remove(entity.getObject3D());
+    this.despawnHooks.forEach(hook => hook(entity));
+    if (!options.keepResources) {
+      entity.dispose();
+    }
+  }
+
+  // Despawn every entity of a type (or everything)
+  clear<T extends Entity>(type?: EntityType<T>, options: DespawnOptions = {}) {
+    const doomed = type ? this.query(type) : [...this.entities];
+    doomed.forEach(entity => this.despawn(entity, options));
+  }
+
+  query<T extends Entity>(type: EntityType<T>): T[] {
+    return this.entities.filter((entity): entity is T => entity instanceof type);
+  }
+
+  onSpawn(hook: EntityHook): Unsubscribe {
+    this.spawnHooks.add(hook);
+    return () => this.spawnHooks.delete(hook);
+  }
+
+  onDespawn(hook: EntityHook): Unsubscribe {
+    this.despawnHooks.add(hook);
+    return () => this.despawnHooks.delete(hook);
+  }
+
+  getEntityCount(): number {
+    return this.entities.length;
+  }
+
+  // Attach this to a scene to render the world
+  getRoot(): THREE.Group {
+    return this.root;
+  }
+}
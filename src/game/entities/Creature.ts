@@ -1,26 +1,38 @@
 import * as THREE from 'three';
 import { getTerrainHeight } from '../three/SceneFactory';
+import { Random, RandomStream } from '../core/Random';
+import { disposeObject3D } from '../three/Disposal';
+import { Entity } from '../core/World';
 
-export class Creature {
+// Carried creatures hold still in the player's arms; airborne ones were set down
+// or thrown and pick their AI back up once they land
+export type CreatureState = 'walking' | 'fleeing' | 'idle' | 'carried' | 'airborne';
+
+export class Creature implements Entity {
   private mesh!: THREE.Mesh;
   private position = new THREE.Vector3();
+  private previousPosition = new THREE.Vector3();
   private velocity = new THREE.Vector3();
   private targetPosition = new THREE.Vector3();
-  private state: 'walking' | 'fleeing' | 'idle' = 'walking';
+  private state: CreatureState = 'walking';
   private moveTimer = 0;
   private moveInterval = 2.0; // Change direction every 2 seconds
   private isAlive = true;
+  private rng: RandomStream = Random.instance.stream('creatures');
 
   // Parameters from spec
   private readonly walkSpeed = 1.2;
-  private readonly fleeSpeed = 2.0;
-  private readonly fleeDistance = 2.5;
+  private fleeSpeed = 2.0;
+  private fleeDistance = 2.5;
   private readonly radius = 0.35;
+  private readonly heightOffset = 0.3; // Above the terrain surface
+  private readonly gravity = -18;      // Same pull as the player
 
   private readonly stageMargin = 0.8; // Stay inside stage bounds
 
   constructor(spawnPosition: THREE.Vector3) {
     this.position.copy(spawnPosition);
+    this.previousPosition.copy(spawnPosition);
     this.targetPosition.copy(spawnPosition);
     this.createMesh();
     this.generateRandomTarget();
@@ -30,7 +42,7 @@ export class Creature {
     // Puffy humanoid creature
     const geometry = new THREE.CapsuleGeometry(this.radius, 0.6, 4, 8);
     const material = new THREE.MeshLambertMaterial({ 
-      color: new THREE.Color().setHSL(Math.random(), 0.6, 0.7)
+      color: new THREE.Color().setHSL(this.rng.next(), 0.6, 0.7)
     });
     
     this.mesh = new THREE.Mesh(geometry, material);
@@ -53,12 +65,22 @@ export class Creature {
 
   update(deltaTime: number, meteorPositions: THREE.Vector3[] = []) {
     if (!this.isAlive) return;
+    if (this.state === 'carried') return; // Moved by whoever carries it
+
+    this.previousPosition.copy(this.position);
+    if (this.state === 'airborne') {
+      this.updateAirborne(deltaTime);
+      return;
+    }
 
     this.updateBehavior(deltaTime, meteorPositions);
     this.updateMovement(deltaTime);
     this.updatePosition(deltaTime);
-    
-    this.mesh.position.copy(this.position);
+  }
+
+  // Blend between the last two simulation ticks for smooth rendering
+  interpolate(alpha: number) {
+    this.mesh.position.lerpVectors(this.previousPosition, this.position, alpha);
   }
 
   private updateBehavior(deltaTime: number, meteorPositions: THREE.Vector3[]) {
@@ -116,7 +138,7 @@ export class Creature {
     if (distanceToTarget < 0.5 || this.moveTimer > this.moveInterval) {
       this.generateRandomTarget();
       this.moveTimer = 0;
-      this.moveInterval = 1.5 + Math.random() * 2.0; // Vary interval
+      this.moveInterval = 1.5 + this.rng.next() * 2.0; // Vary interval
     }
   }
 
@@ -124,9 +146,9 @@ export class Creature {
     // Generate random position within stage bounds
     const stageSize = 5 - this.stageMargin;
     this.targetPosition.set(
-      (Math.random() - 0.5) * stageSize * 2,
+      (this.rng.next() - 0.5) * stageSize * 2,
       0,
-      (Math.random() - 0.5) * stageSize * 2
+      (this.rng.next() - 0.5) * stageSize * 2
     );
   }
 
@@ -167,7 +189,52 @@ export class Creature {
 
     // Follow terrain surface
     const terrainHeight = getTerrainHeight(this.position.x, this.position.z);
-    this.position.y = terrainHeight + this.radius + 0.3; // Height offset for creature
+    this.position.y = terrainHeight + this.radius + this.heightOffset;
+  }
+
+  // Ballistic flight after being let go; the stage bounds still hold, so nothing lands off the edge
+  private updateAirborne(deltaTime: number) {
+    this.velocity.y += this.gravity * deltaTime;
+    this.position.add(this.velocity.clone().multiplyScalar(deltaTime));
+
+    const maxPos = 5 - this.stageMargin;
+    this.position.x = Math.max(-maxPos, Math.min(maxPos, this.position.x));
+    this.position.z = Math.max(-maxPos, Math.min(maxPos, this.position.z));
+
+    const groundLevel = getTerrainHeight(this.position.x, this.position.z) + this.radius + this.heightOffset;
+    if (this.position.y <= groundLevel && this.velocity.y <= 0) {
+      this.position.y = groundLevel;
+      this.velocity.set(0, 0, 0);
+      this.state = 'walking';
+      this.moveTimer = 0;
+      this.generateRandomTarget();
+    }
+  }
+
+  pickUp() {
+    this.state = 'carried';
+    this.velocity.set(0, 0, 0);
+  }
+
+  // Called once per tick while carried, in place of update()
+  carryTo(position: THREE.Vector3) {
+    this.previousPosition.copy(this.position);
+    this.position.copy(position);
+  }
+
+  // Let go with the given velocity; lands and walks off on its own
+  release(velocity: THREE.Vector3) {
+    this.state = 'airborne';
+    this.velocity.copy(velocity);
+  }
+
+  isCarried(): boolean {
+    return this.state === 'carried';
+  }
+
+  // Thrown or set down and not yet back on the ground
+  isAirborne(): boolean {
+    return this.state === 'airborne';
   }
 
   takeDamage() {
@@ -184,6 +251,14 @@ export class Creature {
     return this.mesh;
   }
 
+  getObject3D(): THREE.Object3D {
+    return this.mesh;
+  }
+
+  dispose() {
+    disposeObject3D(this.mesh);
+  }
+
   getBoundingSphere(): THREE.Sphere {
     return new THREE.Sphere(this.position.clone(), this.radius);
   }
@@ -192,10 +267,15 @@ export class Creature {
     return this.isAlive;
   }
 
-  getState(): 'walking' | 'fleeing' | 'idle' {
+  getState(): CreatureState {
     return this.state;
   }
 
+  setFleeBehaviour(distance: number, speed: number) {
+    this.fleeDistance = distance;
+    this.fleeSpeed = speed;
+  }
+
   // Static method to create multiple creatures at spawn points
   static createSpawnPositions(): THREE.Vector3[] {
     return [
@@ -1,48 +1,123 @@
 import * as THREE from 'three';
+import { RandomStream } from '../core/Random';
+import { disposeObject3D } from '../three/Disposal';
+import { Entity } from '../core/World';
+import { MeteorKind, METEOR_KINDS, TelegraphStage } from './MeteorKinds';
+import { TrajectorySpec, TrajectoryPlan, VERTICAL_TRAJECTORY, launchPositionFor, planTrajectory } from './MeteorTrajectory';
 import { getTerrainHeight } from '../three/SceneFactory';
 
 export enum MeteorState {
   Telegraph = 'telegraph',
   Falling = 'falling',
+  Deflected = 'deflected', // Punched away: flying as a harmless projectile
   Destroyed = 'destroyed',
   Exploded = 'exploded'
 }
 
-export class Meteor {
+export interface MeteorLaunch {
+  trajectory?: TrajectorySpec;
+  spawnPosition?: THREE.Vector3; // Fragments start mid-air at their parent
+  showPath?: boolean;            // Draw the incoming path with the telegraph
+}
+
+// Shared by every meteor knocked loose by one punch; length counts them all
+export interface MeteorChain {
+  id: number;
+  length: number;
+}
+
+export class Meteor implements Entity {
   private mesh!: THREE.Mesh;
   private telegraph!: THREE.Mesh;
+  private pathLine: THREE.Line | null = null;
   private group!: THREE.Group;
   private position = new THREE.Vector3();
-  private velocity = new THREE.Vector3();
-  private targetPosition = new THREE.Vector3();
+  private previousPosition = new THREE.Vector3();
+  private aimPosition = new THREE.Vector3();    // Where the path is pointed
+  private targetPosition = new THREE.Vector3(); // Predicted landing point
+  private trajectory: TrajectorySpec = VERTICAL_TRAJECTORY;
+  private plan!: TrajectoryPlan;
+  private flightTime = 0;
+  private landingTime = 0;
   private state = MeteorState.Telegraph;
+  private visibleWhileTelegraphed = false; // Launched from a point in view, e.g. fragments and bosses
   private timer = 0;
-
-  // Parameters from spec - adjustable for gameplay tuning
-  private readonly telegraphDuration = 1.0;
-  private fallSpeed = 12; // Now adjustable
-  private readonly meteorRadius = 0.45;
-  private readonly telegraphRadius = 0.7;
-  private readonly explosionRadius = 1.6;
+  private kind: MeteorKind;
+  private hitPoints = 0;
+  private punchedBy = new Set<number>(); // Hit volumes that already dealt their damage
+  private explosionRadius = 0;
+  private velocity = new THREE.Vector3(); // Only used while deflected
+  private chain: MeteorChain | null = null;
+
+  // Base fall speed from tuning; the kind scales it
+  private fallSpeed = 12;
   private readonly spawnHeight = 12;
+  private readonly deflectGravity = 6;
+  private readonly maxDeflectTime = 3;
 
-  constructor(targetPos: THREE.Vector3) {
-    this.targetPosition.copy(targetPos);
-    this.targetPosition.y = 0; // Ground level
-
-    this.position.set(targetPos.x, this.spawnHeight, targetPos.z);
+  constructor(targetPos: THREE.Vector3, kind: MeteorKind = METEOR_KINDS.standard, launch: MeteorLaunch = {}) {
+    this.kind = kind;
     this.createMesh();
     this.createTelegraph();
+    this.relaunch(targetPos, launch);
+  }
+
+  // Start a fresh flight. Pooled meteors come back through here; the kind and
+  // its meshes stay, everything else returns to how a new meteor starts.
+  relaunch(targetPos: THREE.Vector3, launch: MeteorLaunch = {}) {
+    this.state = MeteorState.Telegraph;
+    this.timer = 0;
+    this.hitPoints = this.kind.hitPoints;
+    this.punchedBy.clear();
+    this.explosionRadius = this.kind.explosionRadius;
+    this.velocity.set(0, 0, 0);
+    this.chain = null;
+    this.trajectory = launch.trajectory ?? VERTICAL_TRAJECTORY;
+    this.aimPosition.copy(targetPos);
+    this.aimPosition.y = 0; // Ground level
+
+    this.position.copy(launch.spawnPosition ?? launchPositionFor(this.trajectory, this.aimPosition, this.spawnHeight));
+    this.previousPosition.copy(this.position);
+    this.replan();
+
+    this.visibleWhileTelegraphed = launch.spawnPosition !== undefined;
+    this.mesh.visible = this.visibleWhileTelegraphed;
+    this.mesh.rotation.set(0, 0, 0);
+    (this.mesh.material as THREE.MeshLambertMaterial).emissive.setHex(this.kind.emissive);
+    this.telegraph.visible = true;
+    this.telegraph.scale.set(1, 1, 1);
+    (this.telegraph.material as THREE.MeshBasicMaterial).color.setHex(this.kind.telegraphColor);
+
+    const showPath = launch.showPath === true && this.trajectory.type !== 'vertical';
+    if (showPath && !this.pathLine) {
+      this.createPathLine();
+    }
+    if (this.pathLine) {
+      this.pathLine.visible = showPath;
+      this.updatePathLine();
+    }
+
+    this.placeTelegraph();
+    this.group.position.copy(this.position);
+  }
+
+  // Plot the path from where the meteor is now and predict where it lands
+  private replan() {
+    this.plan = planTrajectory(this.trajectory, this.position, this.aimPosition, this.fallSpeed * this.kind.speedMultiplier);
+    const landing = this.plan.predictLanding(this.kind.radius);
+    this.targetPosition.copy(landing.position);
+    this.landingTime = landing.time;
+    this.flightTime = 0;
   }
 
   private createMesh() {
     this.group = new THREE.Group();
 
     // Main meteor body
-    const meteorGeometry = new THREE.SphereGeometry(this.meteorRadius, 12, 8);
+    const meteorGeometry = new THREE.SphereGeometry(this.kind.radius, 12, 8);
     const meteorMaterial = new THREE.MeshLambertMaterial({ 
-      color: 0xff4444,
-      emissive: 0x221111
+      color: this.kind.color,
+      emissive: this.kind.emissive
     });
     
     this.mesh = new THREE.Mesh(meteorGeometry, meteorMaterial);
@@ -50,9 +125,9 @@ export class Meteor {
     this.mesh.visible = false; // Hidden during telegraph
     
     // Add glowing trail effect
-    const trailGeometry = new THREE.ConeGeometry(this.meteorRadius * 0.8, 2, 8);
+    const trailGeometry = new THREE.ConeGeometry(this.kind.radius * 0.8, 2, 8);
     const trailMaterial = new THREE.MeshBasicMaterial({ 
-      color: 0xff6666,
+      color: this.kind.color,
       transparent: true,
       opacity: 0.6
     });
@@ -66,9 +141,9 @@ export class Meteor {
 
   private createTelegraph() {
     // Warning circle on ground showing where meteor will land
-    const telegraphGeometry = new THREE.RingGeometry(0.3, this.telegraphRadius, 32);
+    const telegraphGeometry = new THREE.RingGeometry(this.kind.telegraphRadius * 0.45, this.kind.telegraphRadius, 32);
     const telegraphMaterial = new THREE.MeshBasicMaterial({
-      color: 0xff4444,
+      color: this.kind.telegraphColor,
       transparent: true,
       opacity: 0.6,
       side: THREE.DoubleSide
@@ -77,15 +152,48 @@ export class Meteor {
     this.telegraph = new THREE.Mesh(telegraphGeometry, telegraphMaterial);
     // Rotate to lie flat on the ground
     this.telegraph.rotation.x = -Math.PI / 2;
-    // Position relative to group: group is at spawnHeight, telegraph should be at ground (y=0)
-    // So local Y offset = targetY - groupY = 0 - spawnHeight = -spawnHeight
-    this.telegraph.position.set(0, -this.spawnHeight + 0.01, 0);
     this.telegraph.visible = true;
 
     this.group.add(this.telegraph);
   }
 
-  update(deltaTime: number): boolean {
+  private createPathLine() {
+    const pointCount = 24;
+    const geometry = new THREE.BufferGeometry().setFromPoints(new Array(pointCount).fill(new THREE.Vector3()));
+    const material = new THREE.LineBasicMaterial({
+      color: this.kind.telegraphColor,
+      transparent: true,
+      opacity: 0.5
+    });
+    this.pathLine = new THREE.Line(geometry, material);
+    this.group.add(this.pathLine);
+  }
+
+  // Path points are stored relative to the plan's launch point, then the line is
+  // offset against the group so it stays fixed in the world while the meteor moves
+  private updatePathLine() {
+    if (!this.pathLine?.visible) return;
+
+    const attribute = this.pathLine.geometry.getAttribute('position') as THREE.BufferAttribute;
+    const points = this.plan.samplePath(this.landingTime, attribute.count);
+    points.forEach((point, i) => {
+      point.sub(this.plan.launch);
+      attribute.setXYZ(i, point.x, point.y, point.z);
+    });
+    attribute.needsUpdate = true;
+    this.pathLine.geometry.computeBoundingSphere();
+  }
+
+  // Ring and path are children of the moving group, so keep them pinned in the world
+  private placeTelegraph() {
+    this.telegraph.position.copy(this.targetPosition).sub(this.position);
+    this.telegraph.position.y += 0.01;
+    this.pathLine?.position.copy(this.plan.launch).sub(this.position);
+  }
+
+  // Homing kinds steer toward the nearest of these while falling
+  update(deltaTime: number, homingTargets: THREE.Vector3[] = []): boolean {
+    this.previousPosition.copy(this.position);
     this.timer += deltaTime;
 
     switch (this.state) {
@@ -93,7 +201,10 @@ export class Meteor {
         this.updateTelegraph(deltaTime);
         break;
       case MeteorState.Falling:
-        this.updateFalling(deltaTime);
+        this.updateFalling(deltaTime, homingTargets);
+        break;
+      case MeteorState.Deflected:
+        this.updateDeflected(deltaTime);
         break;
       case MeteorState.Destroyed:
         return false; // Mark for removal
@@ -101,48 +212,110 @@ export class Meteor {
         return false; // Mark for removal
     }
 
-    this.updateVisuals();
     return true; // Keep alive
   }
 
   private updateTelegraph(_deltaTime: number) {
-    // Pulse effect - scale and opacity animation
-    const pulse = 0.8 + Math.sin(this.timer * 8) * 0.2;
-    this.telegraph.scale.set(pulse, pulse, 1);
-
-    // Fade in opacity
-    const material = this.telegraph.material as THREE.MeshBasicMaterial;
-    material.opacity = 0.3 + (this.timer / this.telegraphDuration) * 0.4;
+    if (this.kind.boss) {
+      this.updateBossTelegraph();
+    } else {
+      // Pulse effect - scale and opacity animation
+      const pulse = 0.8 + Math.sin(this.timer * 8) * 0.2;
+      this.telegraph.scale.set(pulse, pulse, 1);
+
+      // Fade in opacity
+      const material = this.telegraph.material as THREE.MeshBasicMaterial;
+      material.opacity = 0.3 + (this.timer / this.kind.telegraphDuration) * 0.4;
+    }
 
     // Transition to falling state
-    if (this.timer >= this.telegraphDuration) {
+    if (this.timer >= this.kind.telegraphDuration) {
       this.state = MeteorState.Falling;
-      this.telegraph.visible = false;
+      // Homing meteors keep showing where they will land as it moves; bosses keep warning
+      this.telegraph.visible = this.kind.homing !== undefined || this.kind.boss !== undefined;
       this.mesh.visible = true;
-
-      // Calculate fall velocity
-      const direction = this.targetPosition.clone().sub(this.position).normalize();
-      this.velocity = direction.multiplyScalar(this.fallSpeed);
     }
   }
 
-  private updateFalling(deltaTime: number) {
-    this.position.add(this.velocity.clone().multiplyScalar(deltaTime));
-    this.group.position.copy(this.position);
+  // Bosses warn from the moment they appear until impact, pulsing faster and
+  // shifting colour through their kind's stages as the landing gets closer
+  private updateBossTelegraph() {
+    const stage = this.getTelegraphStage()!;
+    const pulse = 0.9 + Math.sin(this.timer * stage.pulseRate) * 0.1;
+    this.telegraph.scale.set(pulse, pulse, 1);
+
+    const material = this.telegraph.material as THREE.MeshBasicMaterial;
+    material.color.setHex(stage.color);
+    material.opacity = 0.4 + this.getEncounterProgress() * 0.4;
+  }
+
+  // 0 when the warning first shows, 1 at impact
+  private getEncounterProgress(): number {
+    return Math.min(1, this.timer / (this.kind.telegraphDuration + this.landingTime));
+  }
+
+  private updateFalling(deltaTime: number, homingTargets: THREE.Vector3[]) {
+    if (this.kind.homing) {
+      this.steerTowards(homingTargets, deltaTime);
+    }
+
+    // Land exactly on the predicted point instead of wherever the last tick overshot to
+    this.flightTime = Math.min(this.flightTime + deltaTime, this.landingTime);
+    this.plan.positionAt(this.flightTime, this.position);
+    this.placeTelegraph();
+    if (this.kind.boss) {
+      this.updateBossTelegraph();
+    }
 
     // Add rotation for visual effect
     this.mesh.rotation.x += deltaTime * 2;
     this.mesh.rotation.z += deltaTime * 1.5;
 
-    // Check if hit terrain
-    const terrainHeight = getTerrainHeight(this.position.x, this.position.z);
-    if (this.position.y <= terrainHeight + this.meteorRadius) {
+    if (this.flightTime >= this.landingTime) {
       this.explode();
     }
   }
 
-  private updateVisuals() {
-    this.group.position.copy(this.position);
+  // Free flight under light gravity; crumbles on the ground or after a while.
+  // Leaving the stage is the spawner's call, since it owns the stage bounds.
+  private updateDeflected(deltaTime: number) {
+    this.position.addScaledVector(this.velocity, deltaTime);
+    this.velocity.y -= this.deflectGravity * deltaTime;
+
+    this.mesh.rotation.x += deltaTime * 8;
+    this.mesh.rotation.z += deltaTime * 6;
+
+    const grounded = this.position.y <= getTerrainHeight(this.position.x, this.position.z) + this.kind.radius;
+    if (grounded || this.timer >= this.maxDeflectTime) {
+      this.destroy();
+    }
+  }
+
+  // Slide the aim point toward the closest target in range, then re-plan from here
+  private steerTowards(targets: THREE.Vector3[], deltaTime: number) {
+    const homing = this.kind.homing!;
+    let closest: THREE.Vector3 | null = null;
+    let closestDistance = homing.range;
+
+    for (const target of targets) {
+      const distance = Math.hypot(target.x - this.aimPosition.x, target.z - this.aimPosition.z);
+      if (distance <= closestDistance) {
+        closest = target;
+        closestDistance = distance;
+      }
+    }
+    if (!closest || closestDistance === 0) return;
+
+    const step = Math.min(closestDistance, homing.turnRate * deltaTime);
+    this.aimPosition.x += (closest.x - this.aimPosition.x) / closestDistance * step;
+    this.aimPosition.z += (closest.z - this.aimPosition.z) / closestDistance * step;
+    this.replan();
+    this.updatePathLine();
+  }
+
+  // Blend between the last two simulation ticks for smooth rendering
+  interpolate(alpha: number) {
+    this.group.position.lerpVectors(this.previousPosition, this.position, alpha);
   }
 
   private explode() {
@@ -151,6 +324,39 @@ export class Meteor {
     // TODO: Play explosion sound
   }
 
+  // Each punch deals at most one point of damage however long it overlaps.
+  // Returns true when this hit broke the meteor; the caller then decides
+  // whether it shatters or gets knocked away.
+  takePunch(punchId: number): boolean {
+    if (this.punchedBy.has(punchId)) return false;
+    this.punchedBy.add(punchId);
+
+    this.hitPoints--;
+    if (this.hitPoints <= 0) return true;
+
+    // Flash brighter to show the crack
+    const material = this.mesh.material as THREE.MeshLambertMaterial;
+    material.emissive.setHex(0x664422);
+    return false;
+  }
+
+  wasHitByPunch(punchId: number): boolean {
+    return this.punchedBy.has(punchId);
+  }
+
+  // Send the meteor flying; it can no longer explode or be punched
+  deflect(velocity: THREE.Vector3, chain: MeteorChain) {
+    this.state = MeteorState.Deflected;
+    this.timer = 0;
+    this.velocity.copy(velocity);
+    this.chain = chain;
+
+    this.mesh.visible = true;
+    this.telegraph.visible = false;
+    if (this.pathLine) this.pathLine.visible = false;
+    (this.mesh.material as THREE.MeshLambertMaterial).emissive.setHex(0xffaa33);
+  }
+
   destroy() {
     this.state = MeteorState.Destroyed;
     // TODO: Create destruction particle effect
@@ -169,18 +375,71 @@ export class Meteor {
     return this.group;
   }
 
+  getObject3D(): THREE.Object3D {
+    return this.group;
+  }
+
+  dispose() {
+    disposeObject3D(this.group);
+  }
+
   getBoundingSphere(): THREE.Sphere {
-    return new THREE.Sphere(this.position.clone(), this.meteorRadius);
+    return new THREE.Sphere(this.position.clone(), this.kind.radius);
   }
 
   getExplosionSphere(): THREE.Sphere {
     return new THREE.Sphere(this.targetPosition.clone(), this.explosionRadius);
   }
 
+  // Difficulty rules may shrink or grow the blast from the kind's default
+  setExplosionRadius(radius: number) {
+    this.explosionRadius = radius;
+  }
+
+  // Predicted landing point while the warning is up
   getTelegraphPosition(): THREE.Vector3 | null {
     return this.state === MeteorState.Telegraph ? this.targetPosition.clone() : null;
   }
 
+  // Predicted landing point for as long as the meteor is still coming down
+  getPredictedLanding(): THREE.Vector3 | null {
+    return this.isFinished() || this.isDeflected() ? null : this.targetPosition.clone();
+  }
+
+  getVelocity(): THREE.Vector3 {
+    return this.velocity.clone();
+  }
+
+  // The chain this meteor is part of, once it has been knocked away
+  getChain(): MeteorChain | null {
+    return this.chain;
+  }
+
+  getTrajectory(): TrajectorySpec {
+    return this.trajectory;
+  }
+
+  // Current warning stage for boss kinds, null for everything else
+  getTelegraphStage(): TelegraphStage | null {
+    const stages = this.kind.boss?.telegraphStages;
+    if (!stages) return null;
+
+    const progress = this.getEncounterProgress();
+    return stages.reduce((current, stage) => progress >= stage.from ? stage : current, stages[0]);
+  }
+
+  getTelegraphDuration(): number {
+    return this.kind.telegraphDuration;
+  }
+
+  getKind(): MeteorKind {
+    return this.kind;
+  }
+
+  getHitPoints(): number {
+    return this.hitPoints;
+  }
+
   getState(): MeteorState {
     return this.state;
   }
@@ -189,21 +448,30 @@ export class Meteor {
     return this.state === MeteorState.Falling;
   }
 
+  isDeflected(): boolean {
+    return this.state === MeteorState.Deflected;
+  }
+
   isExploded(): boolean {
     return this.state === MeteorState.Exploded;
   }
 
+  isFinished(): boolean {
+    return this.state === MeteorState.Destroyed || this.state === MeteorState.Exploded;
+  }
+
+  // Anything the player can see can be punched, including meteors hanging where they appeared
   canBeDestroyed(): boolean {
-    return this.state === MeteorState.Falling;
+    return this.state === MeteorState.Falling || (this.state === MeteorState.Telegraph && this.visibleWhileTelegraphed);
   }
 
   // Static utility methods
-  static generateRandomTarget(stageSize = 5, margin = 0.8): THREE.Vector3 {
+  static generateRandomTarget(rng: RandomStream, stageSize = 5, margin = 0.8): THREE.Vector3 {
     const maxPos = stageSize - margin;
     return new THREE.Vector3(
-      (Math.random() - 0.5) * maxPos * 2,
+      (rng.next() - 0.5) * maxPos * 2,
       0,
-      (Math.random() - 0.5) * maxPos * 2
+      (rng.next() - 0.5) * maxPos * 2
     );
   }
 
@@ -218,7 +486,15 @@ export class Meteor {
 
   // Debug methods for real-time adjustment
   setFallSpeed(speed: number) {
+    if (speed === this.fallSpeed) return;
     this.fallSpeed = speed;
+
+    // Meteors already in the air keep the path they were launched on
+    if (this.state === MeteorState.Telegraph) {
+      this.replan();
+      this.updatePathLine();
+      this.placeTelegraph();
+    }
   }
 
   getFallSpeed(): number {
@@ -0,0 +1,152 @@
+// Meteor kind definitions.
+// Every meteor is built from one of these profiles; behaviour differences
+// (hit points, splitting, homing, bosses) are data here and handled generically in Meteor.
+
+export type MeteorKindId = 'standard' | 'small' | 'large' | 'splitting' | 'fragment' | 'homing' | 'boss';
+
+export interface MeteorSplit {
+  kind: MeteorKindId;
+  count: number;
+  spread: number; // Max distance of fragment landings from the parent's target
+}
+
+export interface MeteorHoming {
+  range: number;    // Only creatures this close to the current target attract it
+  turnRate: number; // Ground units per second the target may slide
+}
+
+// One step of a boss's escalating warning, entered at a fraction of the way
+// from first warning to impact
+export interface TelegraphStage {
+  from: number;
+  label: string;
+  color: number;
+  pulseRate: number;
+}
+
+export interface MeteorBoss {
+  spawnHeight: number;   // Starts low and in view instead of dropping from the sky
+  shedKind: MeteorKindId;
+  shedCount: number;
+  shedInterval: number;  // Seconds between sheds while it falls
+  shedSpread: number;
+  telegraphStages: TelegraphStage[];
+}
+
+export interface MeteorKind {
+  id: MeteorKindId;
+  radius: number;
+  hitPoints: number;
+  speedMultiplier: number; // Applied to the tuned base fall speed
+  explosionRadius: number;
+  telegraphDuration: number;
+  telegraphRadius: number;
+  color: number;
+  emissive: number;
+  telegraphColor: number;
+  split?: MeteorSplit;
+  homing?: MeteorHoming;
+  boss?: MeteorBoss;
+}
+
+export const METEOR_KINDS: Record<MeteorKindId, MeteorKind> = {
+  standard: {
+    id: 'standard',
+    radius: 0.45,
+    hitPoints: 1,
+    speedMultiplier: 1,
+    explosionRadius: 1.6,
+    telegraphDuration: 1.0,
+    telegraphRadius: 0.7,
+    color: 0xff4444,
+    emissive: 0x221111,
+    telegraphColor: 0xff4444
+  },
+  small: {
+    id: 'small',
+    radius: 0.3,
+    hitPoints: 1,
+    speedMultiplier: 1.3,
+    explosionRadius: 1.0,
+    telegraphDuration: 0.7,
+    telegraphRadius: 0.5,
+    color: 0xffaa44,
+    emissive: 0x332211,
+    telegraphColor: 0xffaa44
+  },
+  large: {
+    id: 'large',
+    radius: 0.8,
+    hitPoints: 2,
+    speedMultiplier: 0.75,
+    explosionRadius: 2.4,
+    telegraphDuration: 1.4,
+    telegraphRadius: 1.1,
+    color: 0x993333,
+    emissive: 0x220808,
+    telegraphColor: 0xcc2222
+  },
+  splitting: {
+    id: 'splitting',
+    radius: 0.55,
+    hitPoints: 1,
+    speedMultiplier: 0.9,
+    explosionRadius: 1.6,
+    telegraphDuration: 1.1,
+    telegraphRadius: 0.8,
+    color: 0xaa44ff,
+    emissive: 0x220833,
+    telegraphColor: 0xaa44ff,
+    split: { kind: 'fragment', count: 3, spread: 1.8 }
+  },
+  fragment: {
+    id: 'fragment',
+    radius: 0.25,
+    hitPoints: 1,
+    speedMultiplier: 0.8,
+    explosionRadius: 0.9,
+    telegraphDuration: 0.5,
+    telegraphRadius: 0.45,
+    color: 0xcc88ff,
+    emissive: 0x220833,
+    telegraphColor: 0xcc88ff
+  },
+  homing: {
+    id: 'homing',
+    radius: 0.45,
+    hitPoints: 1,
+    speedMultiplier: 0.7,
+    explosionRadius: 1.4,
+    telegraphDuration: 1.0,
+    telegraphRadius: 0.7,
+    color: 0x44ddff,
+    emissive: 0x083344,
+    telegraphColor: 0x44ddff,
+    homing: { range: 4, turnRate: 2.5 }
+  },
+  // Only ever sent by a wave's boss entry, never drawn from phase weights
+  boss: {
+    id: 'boss',
+    radius: 1.6,
+    hitPoints: 4,
+    speedMultiplier: 0.05,
+    explosionRadius: 20, // Covers the whole stage
+    telegraphDuration: 3.0,
+    telegraphRadius: 3.5,
+    color: 0x662222,
+    emissive: 0x331100,
+    telegraphColor: 0xffdd44,
+    boss: {
+      spawnHeight: 7,
+      shedKind: 'small',
+      shedCount: 2,
+      shedInterval: 2.5,
+      shedSpread: 3,
+      telegraphStages: [
+        { from: 0, label: 'WARNING', color: 0xffdd44, pulseRate: 3 },
+        { from: 0.45, label: 'DESCENDING', color: 0xff8822, pulseRate: 6 },
+        { from: 0.8, label: 'IMPACT IMMINENT', color: 0xff2222, pulseRate: 14 }
+      ]
+    }
+  }
+};
@@ -0,0 +1,113 @@
+import * as THREE from 'three';
+import { Heightfield } from '../core/Heightfield';
+import { getTerrainHeight } from '../three/SceneFactory';
+
+// Meteor flight paths.
+// A path is closed-form in flight time, so the landing point can be predicted
+// exactly before launch and the meteor lands where its telegraph said it would.
+
+export type TrajectoryType = 'vertical' | 'angled' | 'ballistic';
+
+export interface TrajectorySpec {
+  type: TrajectoryType;
+  angle: number;   // Degrees away from straight down at entry
+  heading: number; // Radians around Y: the side of the stage it comes in from
+  gravity: number; // Only used by ballistic arcs
+}
+
+export const VERTICAL_TRAJECTORY: TrajectorySpec = { type: 'vertical', angle: 0, heading: 0, gravity: 0 };
+
+export const BALLISTIC_GRAVITY = 9;
+
+export interface LandingPrediction {
+  position: THREE.Vector3; // On the ground (y = 0, like every meteor target)
+  time: number;            // Seconds of flight until impact
+}
+
+export class TrajectoryPlan {
+  readonly launch: THREE.Vector3;
+  readonly velocity: THREE.Vector3;
+  readonly gravity: number;
+
+  constructor(launch: THREE.Vector3, velocity: THREE.Vector3, gravity: number) {
+    this.launch = launch.clone();
+    this.velocity = velocity.clone();
+    this.gravity = gravity;
+  }
+
+  positionAt(time: number, target = new THREE.Vector3()): THREE.Vector3 {
+    return target.set(
+      this.launch.x + this.velocity.x * time,
+      this.launch.y + this.velocity.y * time - 0.5 * this.gravity * time * time,
+      this.launch.z + this.velocity.z * time
+    );
+  }
+
+  // First moment a sphere of this radius touches the terrain
+  predictLanding(radius: number, maxTime = this.maxFallTime(radius)): LandingPrediction {
+    const point = new THREE.Vector3();
+    const clearance = (time: number) => {
+      this.positionAt(time, point);
+      return point.y - (getTerrainHeight(point.x, point.z) + radius);
+    };
+
+    const step = 1 / 120;
+    let before = 0;
+    let after = 0;
+    if (clearance(0) > 0) {
+      while (after < maxTime && clearance(after) > 0) {
+        before = after;
+        after += step;
+      }
+      // Narrow the crossing down well below a tick
+      for (let i = 0; i < 20; i++) {
+        const mid = (before + after) / 2;
+        if (clearance(mid) > 0) before = mid; else after = mid;
+      }
+    }
+
+    this.positionAt(after, point);
+    return { position: new THREE.Vector3(point.x, 0, point.z), time: after };
+  }
+
+  // Time to drop from the launch height to the lowest the ground can ever be;
+  // slow meteors can fly for a long while, so the search can't stop any sooner
+  private maxFallTime(radius: number): number {
+    const drop = this.launch.y - radius - Heightfield.instance.minHeight;
+    const downSpeed = -this.velocity.y;
+    if (drop <= 0) return 0;
+    if (this.gravity > 0) {
+      return (Math.sqrt(downSpeed * downSpeed + 2 * this.gravity * drop) - downSpeed) / this.gravity;
+    }
+    return downSpeed > 0 ? drop / downSpeed : 0; // Never comes down; land where it starts
+  }
+
+  // Evenly spaced points along the path, for drawing it
+  samplePath(endTime: number, count: number): THREE.Vector3[] {
+    return Array.from({ length: count }, (_, i) => this.positionAt(endTime * i / (count - 1)));
+  }
+}
+
+// Where a meteor aimed at `aim` starts when it enters from high above
+export function launchPositionFor(spec: TrajectorySpec, aim: THREE.Vector3, height: number): THREE.Vector3 {
+  const offset = spec.type === 'vertical' ? 0 : height * Math.tan(THREE.MathUtils.degToRad(spec.angle));
+  return new THREE.Vector3(
+    aim.x + Math.sin(spec.heading) * offset,
+    height,
+    aim.z + Math.cos(spec.heading) * offset
+  );
+}
+
+// Straight paths travel at `speed`; arcs take as long as the straight line would
+export function planTrajectory(spec: TrajectorySpec, launch: THREE.Vector3, aim: THREE.Vector3, speed: number): TrajectoryPlan {
+  const delta = aim.clone().sub(launch);
+
+  if (spec.type !== 'ballistic') {
+    return new TrajectoryPlan(launch, delta.normalize().multiplyScalar(speed), 0);
+  }
+
+  const flightTime = Math.max(delta.length() / speed, 1e-3);
+  const velocity = delta.divideScalar(flightTime);
+  velocity.y += 0.5 * spec.gravity * flightTime; // Aim high enough that gravity bends it onto the target
+  return new TrajectoryPlan(launch, velocity, spec.gravity);
+}
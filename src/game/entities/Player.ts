@@ -1,34 +1,111 @@
 import * as THREE from 'three';
 import { InputState } from '../input/InputManager';
-import { getTerrainHeight } from '../three/SceneFactory';
+import { getTerrainHeight, findWallContact, StageWall } from '../three/SceneFactory';
+import { disposeObject3D } from '../three/Disposal';
+import { Entity } from '../core/World';
 
-export class Player {
+export type PunchMove = 'jab' | 'charged' | 'uppercut' | 'dive' | 'shockwave';
+
+// An attack's reach this tick. Every activation gets a fresh id, so a meteor
+// takes at most one hit from it however long they overlap.
+export interface HitVolume {
+  move: PunchMove;
+  id: number;
+  sphere: THREE.Sphere;
+  direction: THREE.Vector3; // Horizontal push for what it hits; zero pushes away from the center
+}
+
+interface PunchMoveSpec {
+  radiusScale: number; // Times the base punch radius
+  forward: number;     // Offset along the aim direction
+  up: number;          // Offset above the player's center
+  duration: number;
+}
+
+const PUNCH_MOVES: Record<PunchMove, PunchMoveSpec> = {
+  jab: { radiusScale: 1, forward: 0.7, up: 0, duration: 0.25 }, // Spec 4.2
+  charged: { radiusScale: 1.6, forward: 0.9, up: 0, duration: 0.25 },
+  uppercut: { radiusScale: 0.9, forward: 0.4, up: 0.6, duration: 0.3 },
+  dive: { radiusScale: 1, forward: 0, up: -0.6, duration: 1.0 }, // Normally ends on landing
+  shockwave: { radiusScale: 2.5, forward: 0, up: -0.4, duration: 0.15 }
+};
+
+interface ActiveAttack {
+  volume: HitVolume;
+  timer: number;
+}
+
+// How much jumping the player gets; tunable per game mode
+export interface JumpRules {
+  airJumps: number;          // Extra jumps in mid-air (1 = double jump)
+  wallJumps: number;         // Wall jumps allowed before touching the ground again
+  wallSlideFriction: number; // 0 slides down walls at full speed, 1 sticks in place
+}
+
+export const DEFAULT_JUMP_RULES: JumpRules = {
+  airJumps: 1,
+  wallJumps: 3,
+  wallSlideFriction: 0.7
+};
+
+// What happened to the player this tick, for the simulation to announce
+export type PlayerTransition = 'fell' | 'respawned' | null;
+
+export class Player implements Entity {
   private mesh!: THREE.Mesh;
   private group!: THREE.Group;
   private position = new THREE.Vector3();
+  private previousPosition = new THREE.Vector3();
   private velocity = new THREE.Vector3();
   private isGrounded = false;
-  private punchActive = false;
-  private punchTimer = 0;
+  private attack: ActiveAttack | null = null;    // The fist: jab, charged, uppercut or dive
+  private shockwave: ActiveAttack | null = null; // Left behind when a dive lands
+  private attackId = 0; // Counts attacks so a target is hit once per swing
+  private charging = false; // Punch held since it swung; a long enough hold charges up
+  private chargeTimer = 0;
+  private aimDirection = new THREE.Vector3(0, 0, -1);
   private knockbackTimer = 0;
   private isKnockedBack = false;
+  private respawnTimer = 0;      // Counting down while waiting to reappear after a fall
+  private invulnerableTimer = 0; // Grace period after reappearing
+  private jumpRules: JumpRules = { ...DEFAULT_JUMP_RULES };
+  private airJumpsUsed = 0;
+  private wallJumpsUsed = 0;
+  private wallContact: StageWall | null = null; // Wall the player is touching in mid-air
+  private wallJumpTimer = 0; // Steering is locked briefly so the push off the wall sticks
+  private carrying = false;  // Hands full: slower, and punch throws instead
 
   // Parameters from spec - adjustable for gameplay feel
   private moveSpeed = 4.0; // Reduced from 6.0 for better control
   private readonly jumpSpeed = 8.5;
+  private readonly airJumpSpeed = 7.5;
+  private readonly wallJumpSpeed = 8;
+  private readonly wallJumpPush = 5;       // Horizontal speed away from the wall
+  private readonly wallJumpLockTime = 0.2;
+  private readonly maxWallSlideSpeed = 10; // Fall speed along a wall with no friction
+  private readonly bodyRadius = 0.5;
+  private readonly wallSkin = 0.05;        // Counts as touching a wall this close to it
   private readonly gravity = -18;
   private readonly airControlFactor = 0.6;
-  private readonly punchDuration = 0.25;
-  private readonly punchRadius = 0.6;
-  private readonly punchOffset = 0.7;
+  private readonly carrySpeedFactor = 0.6;
+  private punchRadius = 0.6;
+  private readonly chargeDelay = 0.2;    // Holds shorter than this are just the jab
+  private readonly chargeTime = 0.5;     // Then hold this long more for a charged punch
+  private readonly uppercutSpeed = 9.5;  // Launches the player like a jump
+  private readonly diveSpeed = 14;
   private readonly knockbackDuration = 0.4;
+  private readonly stageHalfSize = 5;
+  private readonly fallOutHeight = -10;     // Well below the stage base: gone
+  private readonly respawnDelay = 0.8;      // Spec
+  private readonly invulnerableDuration = 1.5;
+  private readonly spawnPosition = new THREE.Vector3(0, 1, 0);
   
   private direction = new THREE.Vector3();
-  private punchSphere = new THREE.Sphere();
 
   constructor() {
     this.createMesh();
     this.position.set(0, 1, 0);
+    this.previousPosition.copy(this.position);
     this.group.position.copy(this.position);
   }
 
@@ -65,21 +142,61 @@ export class Player {
     const punchIndicator = new THREE.Mesh(punchIndicatorGeometry, punchIndicatorMaterial);
     punchIndicator.visible = false;
     this.group.add(punchIndicator);
+
+    // Ground ring for the dive shockwave
+    const shockwaveGeometry = new THREE.RingGeometry(0.8, 1, 24);
+    const shockwaveMaterial = new THREE.MeshBasicMaterial({
+      color: 0xffd166,
+      transparent: true,
+      opacity: 0.5,
+      side: THREE.DoubleSide
+    });
+    const shockwaveIndicator = new THREE.Mesh(shockwaveGeometry, shockwaveMaterial);
+    shockwaveIndicator.rotation.x = -Math.PI / 2;
+    shockwaveIndicator.visible = false;
+    this.group.add(shockwaveIndicator);
   }
 
-  update(deltaTime: number, inputState: InputState, cameraDirection?: THREE.Vector3) {
+  update(deltaTime: number, inputState: InputState, cameraDirection?: THREE.Vector3, punchDirection?: THREE.Vector3): PlayerTransition {
+    this.previousPosition.copy(this.position);
+
+    if (this.respawnTimer > 0) {
+      this.respawnTimer -= deltaTime;
+      if (this.respawnTimer > 0) return null;
+      this.respawn();
+      return 'respawned';
+    }
+
+    if (this.invulnerableTimer > 0) {
+      this.invulnerableTimer = Math.max(0, this.invulnerableTimer - deltaTime);
+      this.group.visible = this.invulnerableTimer === 0 || Math.floor(this.invulnerableTimer * 10) % 2 === 0; // Blink
+    }
+
+    this.wallJumpTimer = Math.max(0, this.wallJumpTimer - deltaTime);
+
     if (this.isKnockedBack) {
       this.updateKnockback(deltaTime);
-      return;
+    } else {
+      this.updateMovement(deltaTime, inputState, cameraDirection);
+      this.updateJump(inputState);
+      this.updateAim(punchDirection ?? cameraDirection);
+      this.updatePunch(deltaTime, inputState);
+      this.updatePhysics(deltaTime);
+      this.updateWallContact();
+      this.updateGroundCheck();
+      this.updateAttacks(deltaTime);
     }
 
-    this.updateMovement(deltaTime, inputState, cameraDirection);
-    this.updateJump(inputState);
-    this.updatePunch(deltaTime, inputState, cameraDirection);
-    this.updatePhysics(deltaTime);
-    this.updateGroundCheck();
-    
-    this.group.position.copy(this.position);
+    if (this.position.y < this.fallOutHeight) {
+      this.fall();
+      return 'fell';
+    }
+    return null;
+  }
+
+  // Blend between the last two simulation ticks for smooth rendering
+  interpolate(alpha: number) {
+    this.group.position.lerpVectors(this.previousPosition, this.position, alpha);
   }
 
   private updateMovement(deltaTime: number, inputState: InputState, cameraDirection?: THREE.Vector3) {
@@ -89,7 +206,7 @@ export class Player {
       inputState.movement.z
     );
 
-    if (movementVector.length() > 0) {
+    if (movementVector.length() > 0 && this.wallJumpTimer === 0) {
       // Transform movement relative to camera direction
       if (cameraDirection) {
         const cameraForward = cameraDirection.clone().normalize();
@@ -108,7 +225,8 @@ export class Player {
       movementVector.normalize();
       
       // Apply movement speed
-      const currentMoveSpeed = this.isGrounded ? this.moveSpeed : this.moveSpeed * this.airControlFactor;
+      const carrySpeed = this.carrying ? this.moveSpeed * this.carrySpeedFactor : this.moveSpeed;
+      const currentMoveSpeed = this.isGrounded ? carrySpeed : carrySpeed * this.airControlFactor;
       movementVector.multiplyScalar(currentMoveSpeed * deltaTime);
       
       // Update velocity
@@ -125,74 +243,160 @@ export class Player {
       }
     }
 
-    // Constrain to stage bounds (10x10 units, leaving margin)
-    const margin = 0.5;
-    this.position.x = Math.max(-5 + margin, Math.min(5 - margin, this.position.x + this.velocity.x * deltaTime));
-    this.position.z = Math.max(-5 + margin, Math.min(5 - margin, this.position.z + this.velocity.z * deltaTime));
+    // Constrain to stage bounds (10x10 units, leaving margin); once knocked
+    // past the edge there is nothing to stand on and no way back
+    this.position.x += this.velocity.x * deltaTime;
+    this.position.z += this.velocity.z * deltaTime;
+    if (this.isOverStage(this.previousPosition)) {
+      const limit = this.stageHalfSize - 0.5;
+      this.position.x = Math.max(-limit, Math.min(limit, this.position.x));
+      this.position.z = Math.max(-limit, Math.min(limit, this.position.z));
+    }
+  }
+
+  private isOverStage(position: THREE.Vector3): boolean {
+    return Math.abs(position.x) <= this.stageHalfSize && Math.abs(position.z) <= this.stageHalfSize;
   }
 
+  // Grounded jump first, then a wall jump when touching a wall, then an air jump
   private updateJump(inputState: InputState) {
-    if (inputState.jumpPressed && this.isGrounded) {
+    if (this.isGrounded) {
+      this.airJumpsUsed = 0;
+      this.wallJumpsUsed = 0;
+    }
+    if (!inputState.jumpPressed) return;
+
+    if (this.isGrounded) {
       this.velocity.y = this.jumpSpeed;
       this.isGrounded = false;
+    } else if (this.wallContact && this.wallJumpsUsed < this.jumpRules.wallJumps) {
+      const away = this.wallContact.normal;
+      this.velocity.set(away.x * this.wallJumpPush, this.wallJumpSpeed, away.z * this.wallJumpPush);
+      this.direction.copy(away); // Face away from the wall
+      this.wallJumpsUsed++;
+      this.airJumpsUsed = 0; // Kicking off a wall gives the air jump back
+      this.wallJumpTimer = this.wallJumpLockTime;
+      this.wallContact = null;
+    } else if (this.airJumpsUsed < this.jumpRules.airJumps) {
+      this.velocity.y = this.airJumpSpeed;
+      this.airJumpsUsed++;
     }
   }
 
-  private updatePunch(deltaTime: number, inputState: InputState, cameraDirection?: THREE.Vector3) {
-    const punchIndicator = this.group.children[2] as THREE.Mesh;
-    
-    // Activate punch automatically when airborne
-    if (!this.isGrounded && !this.punchActive) {
-      this.punchActive = true;
-      this.punchTimer = this.punchDuration;
-      
-      // Show punch indicator
-      punchIndicator.visible = true;
-      
-      // Always use camera direction for punch
-      let punchDirection = new THREE.Vector3(0, 0, -1); // Default forward (negative Z)
-      
-      if (cameraDirection) {
-        punchDirection.copy(cameraDirection).normalize();
-        punchDirection.y = 0; // Keep on horizontal plane
-        punchDirection.normalize();
-      }
-      
-      // Position punch sphere in world coordinates
-      const punchPosition = this.position.clone().add(
-        punchDirection.clone().multiplyScalar(this.punchOffset)
-      );
-      this.punchSphere.set(punchPosition, this.punchRadius);
-      
-      // Update indicator position
-      const worldPunchPosition = punchPosition.clone().sub(this.position);
-      punchIndicator.position.copy(worldPunchPosition);
+  // Punches go along the aim resolved for this frame (camera, movement or
+  // bent toward a meteor by auto-aim), flattened onto the ground
+  private updateAim(direction?: THREE.Vector3) {
+    if (!direction) return;
+    const aim = direction.clone().setY(0);
+    if (aim.lengthSq() > 0) {
+      this.aimDirection.copy(aim.normalize());
+    }
+  }
+
+  // Punch input swings at once: press while falling with jump held to dive, on the
+  // ground to uppercut, otherwise to jab. Keep holding past the jab in the air and
+  // the fist charges up; releasing once it is full throws a charged punch.
+  private updatePunch(deltaTime: number, inputState: InputState) {
+    if (this.carrying) {
+      this.charging = false; // Punch is the throw button while carrying
+      this.chargeTimer = 0;
+      (this.mesh.material as THREE.MeshLambertMaterial).emissive.setRGB(0, 0, 0);
+      return;
     }
 
-    // Update punch timer and deactivate when grounded or time expires
-    if (this.punchActive) {
-      this.punchTimer -= deltaTime;
-      if (this.punchTimer <= 0 || this.isGrounded) {
-        this.punchActive = false;
-        punchIndicator.visible = false;
+    if (inputState.punchPressed) {
+      this.charging = false;
+      this.chargeTimer = 0;
+      if (!this.isGrounded && inputState.jump && this.velocity.y < 0) {
+        this.startAttack('dive');
+        this.velocity.set(0, -this.diveSpeed, 0);
+      } else if (this.isGrounded) {
+        this.startAttack('uppercut');
+        this.velocity.y = this.uppercutSpeed;
+        this.isGrounded = false;
+        this.charging = true;
       } else {
-        // Update punch position continuously while airborne
-        let punchDirection = new THREE.Vector3(0, 0, -1);
-        if (cameraDirection) {
-          punchDirection.copy(cameraDirection).normalize();
-          punchDirection.y = 0;
-          punchDirection.normalize();
+        this.startAttack('jab');
+        this.charging = true;
+      }
+    }
+
+    if (this.charging && inputState.punch) {
+      this.chargeTimer += deltaTime;
+    } else if (this.charging) {
+      if (!this.isGrounded && this.chargeTimer >= this.chargeDelay + this.chargeTime) {
+        this.startAttack('charged');
+      }
+      this.charging = false;
+      this.chargeTimer = 0;
+    }
+
+    // Glow while charging, brightest once a charged punch is ready; only in the
+    // air, where releasing can throw it
+    const charge = this.charging && !this.isGrounded
+      ? THREE.MathUtils.clamp((this.chargeTimer - this.chargeDelay) / this.chargeTime, 0, 1)
+      : 0;
+    const bodyMaterial = this.mesh.material as THREE.MeshLambertMaterial;
+    bodyMaterial.emissive.setRGB(charge * 0.4, charge * 0.25, 0);
+  }
+
+  private startAttack(move: PunchMove) {
+    if (this.attack?.volume.move === 'dive') return; // A dive is committed until it lands
+    this.attack = this.createAttack(move);
+  }
+
+  private createAttack(move: PunchMove): ActiveAttack {
+    const spec = PUNCH_MOVES[move];
+    return {
+      volume: {
+        move,
+        id: ++this.attackId,
+        sphere: new THREE.Sphere(new THREE.Vector3(), this.punchRadius * spec.radiusScale),
+        direction: move === 'shockwave' ? new THREE.Vector3() : this.aimDirection.clone()
+      },
+      timer: spec.duration
+    };
+  }
+
+  // Count down active attacks and move their hit volumes with the player.
+  // Fist attacks end on landing; a landing dive leaves a shockwave behind.
+  private updateAttacks(deltaTime: number) {
+    if (this.attack) {
+      this.attack.timer -= deltaTime;
+      if (this.isGrounded) {
+        if (this.attack.volume.move === 'dive') {
+          this.shockwave = this.createAttack('shockwave');
         }
-        
-        const punchPosition = this.position.clone().add(
-          punchDirection.clone().multiplyScalar(this.punchOffset)
-        );
-        this.punchSphere.set(punchPosition, this.punchRadius);
-        
-        const worldPunchPosition = punchPosition.clone().sub(this.position);
-        punchIndicator.position.copy(worldPunchPosition);
+        this.attack = null;
+      } else if (this.attack.timer <= 0) {
+        this.attack = null;
+      }
+    }
+
+    if (this.shockwave) {
+      this.shockwave.timer -= deltaTime;
+      if (this.shockwave.timer <= 0) {
+        this.shockwave = null;
       }
     }
+
+    this.placeAttack(this.attack, this.group.children[2] as THREE.Mesh);
+    this.placeAttack(this.shockwave, this.group.children[3] as THREE.Mesh);
+  }
+
+  private placeAttack(attack: ActiveAttack | null, indicator: THREE.Mesh) {
+    indicator.visible = attack !== null;
+    if (!attack) return;
+
+    const spec = PUNCH_MOVES[attack.volume.move];
+    const center = attack.volume.sphere.center;
+    center.copy(this.position).addScaledVector(this.aimDirection, spec.forward);
+    center.y += spec.up;
+
+    // Indicators are children of the group, so place them relative to the player
+    indicator.position.copy(center).sub(this.position);
+    const scale = attack.volume.sphere.radius / this.punchRadius;
+    indicator.scale.setScalar(attack.volume.move === 'shockwave' ? attack.volume.sphere.radius : scale);
   }
 
   private updatePhysics(deltaTime: number) {
@@ -201,14 +405,39 @@ export class Player {
     
     // Update position
     this.position.add(this.velocity.clone().multiplyScalar(deltaTime));
-    
-    // Check for falling off stage
-    if (this.position.y < -10) {
-      this.respawn();
+  }
+
+  // Keep the player out of the stage walls, and slide down them in mid-air
+  private updateWallContact() {
+    const contact = findWallContact(this.position, this.bodyRadius, this.wallSkin);
+    this.wallContact = contact && !this.isGrounded ? contact.wall : null;
+    if (!contact) return;
+
+    const normal = contact.wall.normal;
+    if (contact.penetration > 0) {
+      this.position.addScaledVector(normal, contact.penetration);
+    }
+
+    // Stop moving into the wall
+    const intoWall = this.velocity.dot(normal);
+    if (intoWall < 0) {
+      this.velocity.addScaledVector(normal, -intoWall);
+    }
+
+    // Friction against the wall caps how fast the player slides down it
+    if (this.wallContact) {
+      const maxFallSpeed = this.maxWallSlideSpeed * (1 - this.jumpRules.wallSlideFriction);
+      this.velocity.y = Math.max(this.velocity.y, -maxFallSpeed);
     }
   }
 
   private updateGroundCheck() {
+    // Past the edge of the stage there is no ground at all
+    if (!this.isOverStage(this.position)) {
+      this.isGrounded = false;
+      return;
+    }
+
     // Get terrain height at current position
     const terrainHeight = getTerrainHeight(this.position.x, this.position.z);
     const groundLevel = terrainHeight + 0.6; // Player height offset
@@ -236,14 +465,59 @@ export class Player {
     
     // Apply knockback physics
     this.updatePhysics(deltaTime);
+    this.updateWallContact();
     this.updateGroundCheck();
   }
 
+  // Out of play until the respawn delay runs out; the match applies the penalty
+  private fall() {
+    this.respawnTimer = this.respawnDelay;
+    this.velocity.set(0, 0, 0);
+    this.isKnockedBack = false;
+    this.attack = null;
+    this.shockwave = null;
+    this.charging = false;
+    this.chargeTimer = 0;
+    this.wallContact = null;
+    this.wallJumpTimer = 0;
+    this.group.visible = false;
+  }
+
   private respawn() {
+    this.position.copy(this.spawnPosition);
+    this.previousPosition.copy(this.position); // Teleport, don't interpolate
+    this.velocity.set(0, 0, 0);
+    this.isGrounded = false;
+    this.respawnTimer = 0;
+    this.invulnerableTimer = this.invulnerableDuration;
+    this.group.visible = true;
+  }
+
+  reset() {
     this.position.set(0, 1, 0);
+    this.previousPosition.copy(this.position);
     this.velocity.set(0, 0, 0);
+    this.direction.set(0, 0, 0);
     this.isGrounded = false;
-    // TODO: Apply time penalty (-3 seconds)
+    this.attack = null;
+    this.shockwave = null;
+    this.charging = false;
+    this.chargeTimer = 0;
+    this.aimDirection.set(0, 0, -1);
+    (this.mesh.material as THREE.MeshLambertMaterial).emissive.setRGB(0, 0, 0);
+    this.isKnockedBack = false;
+    this.knockbackTimer = 0;
+    this.respawnTimer = 0;
+    this.invulnerableTimer = 0;
+    this.airJumpsUsed = 0;
+    this.wallJumpsUsed = 0;
+    this.wallContact = null;
+    this.wallJumpTimer = 0;
+    this.carrying = false;
+    this.group.visible = true;
+    this.group.children[2].visible = false; // Punch indicator
+    this.group.children[3].visible = false; // Shockwave indicator
+    this.group.position.copy(this.position);
   }
 
   applyKnockback(direction: THREE.Vector3, force: number = 5) {
@@ -252,30 +526,106 @@ export class Player {
     this.isKnockedBack = true;
     this.knockbackTimer = this.knockbackDuration;
     this.isGrounded = false;
+
+    // Getting hit interrupts any attack
+    this.attack = null;
+    this.shockwave = null;
+    this.charging = false;
+    this.chargeTimer = 0;
+    this.group.children[2].visible = false;
+    this.group.children[3].visible = false;
   }
 
-  getPunchSphere(): THREE.Sphere | null {
-    return this.punchActive ? this.punchSphere : null;
+  // Every attack that can hit something this tick
+  getHitVolumes(): HitVolume[] {
+    const volumes: HitVolume[] = [];
+    if (this.attack) volumes.push(this.attack.volume);
+    if (this.shockwave) volumes.push(this.shockwave.volume);
+    return volumes;
   }
 
   getPosition(): THREE.Vector3 {
     return this.position.clone();
   }
 
+  getRenderPosition(): THREE.Vector3 {
+    return this.group.position.clone();
+  }
+
   getGroup(): THREE.Group {
     return this.group;
   }
 
+  getObject3D(): THREE.Object3D {
+    return this.group;
+  }
+
+  dispose() {
+    disposeObject3D(this.group);
+  }
+
   getBoundingSphere(): THREE.Sphere {
     return new THREE.Sphere(this.position.clone(), 0.5);
   }
 
+  // Out of play after a fall, or still blinking after coming back
+  isInvulnerable(): boolean {
+    return this.respawnTimer > 0 || this.invulnerableTimer > 0;
+  }
+
+  isRespawning(): boolean {
+    return this.respawnTimer > 0;
+  }
+
+  getSpawnPosition(): THREE.Vector3 {
+    return this.spawnPosition.clone();
+  }
+
+  getRespawnDelay(): number {
+    return this.respawnDelay;
+  }
+
+  setCarrying(carrying: boolean) {
+    this.carrying = carrying;
+  }
+
+  isCarrying(): boolean {
+    return this.carrying;
+  }
+
+  // Where punches go, flat on the ground plane
+  getAimDirection(): THREE.Vector3 {
+    return this.aimDirection.clone();
+  }
+
+  isInKnockback(): boolean {
+    return this.isKnockedBack;
+  }
+
+  setJumpRules(rules: Partial<JumpRules>) {
+    this.jumpRules = { ...this.jumpRules, ...rules };
+  }
+
+  getJumpRules(): JumpRules {
+    return { ...this.jumpRules };
+  }
+
+  // Touching a wall in mid-air: jumping now kicks off it
+  isOnWall(): boolean {
+    return this.wallContact !== null;
+  }
+
+  // Last direction the player moved in; zero until they first move
+  getFacingDirection(): THREE.Vector3 {
+    return this.direction.clone();
+  }
+
   getIsGrounded(): boolean {
     return this.isGrounded;
   }
 
   isPunchActive(): boolean {
-    return this.punchActive;
+    return this.attack !== null;
   }
 
   setMoveSpeed(speed: number) {
@@ -285,4 +635,18 @@ export class Player {
   getMoveSpeed(): number {
     return this.moveSpeed;
   }
+
+  setPunchRadius(radius: number) {
+    if (radius === this.punchRadius) return;
+    this.punchRadius = radius;
+
+    // Rebuild the indicator so it still shows the real hit area
+    const punchIndicator = this.group.children[2] as THREE.Mesh;
+    punchIndicator.geometry.dispose();
+    punchIndicator.geometry = new THREE.SphereGeometry(radius, 8, 6);
+  }
+
+  getPunchRadius(): number {
+    return this.punchRadius;
+  }
 }
\ No newline at end of file
@@ -6,18 +6,31 @@ export interface InputState {
   punch: boolean;
   jumpPressed: boolean;
   punchPressed: boolean;
+  grab: boolean; // Pick up, set down
+  grabPressed: boolean;
 }
 
+// Whatever the player last touched; picks per-device defaults such as aiming
+export type InputDevice = 'keyboard' | 'touch' | 'gamepad';
+
 export class InputManager {
   private static _instance: InputManager;
   
   private keys = new Set<string>();
+  private polledKeys = new Set<string>(); // Snapshot of keys at the latest update()
+  private previousPolledKeys = new Set<string>();
+  private mousePunch = false; // Left button, merged into punch on the next update()
+  private mouseGrab = false;  // Right button, merged into grab the same way
+  private activeDevice: InputDevice = 'keyboard';
+  private readonly stickDeadZone = 0.2;
   private inputState: InputState = {
     movement: { x: 0, z: 0 },
     jump: false,
     punch: false,
     jumpPressed: false,
-    punchPressed: false
+    punchPressed: false,
+    grab: false,
+    grabPressed: false
   };
   
   private previousInputState: InputState = {
@@ -25,7 +38,9 @@ export class InputManager {
     jump: false,
     punch: false,
     jumpPressed: false,
-    punchPressed: false
+    punchPressed: false,
+    grab: false,
+    grabPressed: false
   };
 
   private virtualStick: VirtualStick | null = null;
@@ -42,6 +57,7 @@ export class InputManager {
     this.setupMouseEvents();
     this.setupTouchEvents();
     this.createVirtualControls();
+    if (this.isMobile()) this.activeDevice = 'touch';
     
     // Clear any initial key state
     this.keys.clear();
@@ -50,6 +66,7 @@ export class InputManager {
   private setupKeyboardEvents() {
     window.addEventListener('keydown', (e) => {
       this.keys.add(e.code);
+      this.activeDevice = 'keyboard';
       e.preventDefault();
     });
 
@@ -57,18 +74,31 @@ export class InputManager {
       this.keys.delete(e.code);
       e.preventDefault();
     });
+
+    // Key-up events are lost while unfocused, so forget held keys
+    window.addEventListener('blur', () => {
+      this.keys.clear();
+      this.mousePunch = false;
+      this.mouseGrab = false;
+    });
   }
 
   private setupMouseEvents() {
     window.addEventListener('mousedown', (e) => {
       if (e.button === 0) { // Left click
-        this.inputState.punch = true;
+        this.mousePunch = true;
+        this.activeDevice = 'keyboard';
+      } else if (e.button === 2) { // Right click
+        this.mouseGrab = true;
+        this.activeDevice = 'keyboard';
       }
     });
 
     window.addEventListener('mouseup', (e) => {
       if (e.button === 0) {
-        this.inputState.punch = false;
+        this.mousePunch = false;
+      } else if (e.button === 2) {
+        this.mouseGrab = false;
       }
     });
   }
@@ -76,6 +106,9 @@ export class InputManager {
   private setupTouchEvents() {
     // Touch events will be handled by virtual controls
     window.addEventListener('contextmenu', (e) => e.preventDefault());
+    window.addEventListener('touchstart', () => {
+      this.activeDevice = 'touch';
+    }, { passive: true });
   }
 
   private createVirtualControls() {
@@ -93,6 +126,9 @@ export class InputManager {
     // Store previous state BEFORE updating current state
     const prevJump = this.inputState.jump;
     const prevPunch = this.inputState.punch;
+    const prevGrab = this.inputState.grab;
+    this.previousPolledKeys = this.polledKeys;
+    this.polledKeys = new Set(this.keys);
 
     // Update movement from keyboard
     this.updateMovementFromKeyboard();
@@ -106,12 +142,57 @@ export class InputManager {
 
     // Update jump/punch from keyboard
     this.inputState.jump = this.keys.has('Space');
-    this.inputState.punch = this.keys.has('KeyJ');
+    this.inputState.punch = this.keys.has('KeyJ') || this.mousePunch;
+    this.inputState.grab = this.keys.has('KeyK') || this.mouseGrab;
+
+    // Gamepad adds to whatever the keyboard says
+    this.updateFromGamepad();
 
     // Update pressed states (for one-frame events)
     this.inputState.jumpPressed = this.inputState.jump && !prevJump;
     this.inputState.punchPressed = this.inputState.punch && !prevPunch;
-    
+    this.inputState.grabPressed = this.inputState.grab && !prevGrab;
+  }
+
+  // One-tick edge for keys outside the gameplay input state (menus, debug shortcuts)
+  wasKeyPressed(code: string): boolean {
+    return this.polledKeys.has(code) && !this.previousPolledKeys.has(code);
+  }
+
+  // Standard mapping: left stick moves, A (bottom) jumps, X (left) or B (right) punches, Y (top) grabs
+  private updateFromGamepad() {
+    const gamepad = this.getGamepad();
+    if (!gamepad) return;
+
+    const x = this.applyDeadZone(gamepad.axes[0] ?? 0);
+    const z = this.applyDeadZone(gamepad.axes[1] ?? 0);
+    const jump = gamepad.buttons[0]?.pressed ?? false;
+    const punch = (gamepad.buttons[2]?.pressed ?? false) || (gamepad.buttons[1]?.pressed ?? false);
+    const grab = gamepad.buttons[3]?.pressed ?? false;
+
+    if (x !== 0 || z !== 0 || jump || punch || grab) {
+      this.activeDevice = 'gamepad';
+    }
+
+    if (x !== 0 || z !== 0) {
+      this.inputState.movement.x = x;
+      this.inputState.movement.z = z;
+    }
+    this.inputState.jump ||= jump;
+    this.inputState.punch ||= punch;
+    this.inputState.grab ||= grab;
+  }
+
+  private getGamepad(): Gamepad | null {
+    if (typeof navigator.getGamepads !== 'function') return null;
+    return navigator.getGamepads().find((gamepad): gamepad is Gamepad => gamepad !== null && gamepad.connected) ?? null;
+  }
+
+  // Ignore stick drift near the center, then rescale so the edge still reaches 1
+  private applyDeadZone(value: number): number {
+    const magnitude = Math.abs(value);
+    if (magnitude < this.stickDeadZone) return 0;
+    return Math.sign(value) * Math.min(1, (magnitude - this.stickDeadZone) / (1 - this.stickDeadZone));
   }
 
   private updateMovementFromKeyboard() {
@@ -134,6 +215,10 @@ export class InputManager {
     this.inputState.movement.z = z;
   }
 
+  getActiveDevice(): InputDevice {
+    return this.activeDevice;
+  }
+
   getInputState(): InputState {
     return { ...this.inputState };
   }
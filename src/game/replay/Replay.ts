@@ -0,0 +1,231 @@
+import * as THREE from 'three';
+import { InputState } from '../input/InputManager';
+import { SimulationTuning, MatchResult, DEFAULT_TUNING } from '../Simulation';
+import { DifficultyId, isDifficultyId } from '../DifficultyPresets';
+
+// Replay format: match seed + difficulty + tuning + one quantized input frame per simulation tick.
+// Live play runs on the same quantized frames that get recorded, so playback is exact.
+
+export const REPLAY_VERSION = 4;
+
+const enum ButtonBits {
+  Jump = 1 << 0,
+  Punch = 1 << 1,
+  JumpPressed = 1 << 2,
+  PunchPressed = 1 << 3,
+  Grab = 1 << 4,
+  GrabPressed = 1 << 5
+}
+
+const BYTES_PER_FRAME = 7; // buttons, moveX, moveZ, aimYaw (int16), punchYaw (int16)
+const MAX_RUN_LENGTH = 255;
+const AXIS_SCALE = 127;
+const YAW_SCALE = 32767 / Math.PI;
+
+export interface ReplayFrame {
+  buttons: number;
+  moveX: number; // -127..127
+  moveZ: number; // -127..127
+  aimYaw: number; // -32767..32767, camera heading that movement is relative to
+  punchYaw: number; // -32767..32767, where punches go after aim assist
+}
+
+export interface TuningChange {
+  tick: number;
+  tuning: SimulationTuning;
+}
+
+export interface Replay {
+  version: number;
+  seed: number;
+  difficulty: DifficultyId;
+  tickRate: number;
+  tuning: SimulationTuning;
+  tuningChanges: TuningChange[];
+  frames: ReplayFrame[];
+  result?: MatchResult;
+}
+
+// On-disk shape: frames are run-length encoded bytes in base64
+interface ReplayFile {
+  version: number;
+  seed: number;
+  difficulty: DifficultyId;
+  tickRate: number;
+  tuning: SimulationTuning;
+  tuningChanges: TuningChange[];
+  frameCount: number;
+  frames: string;
+  result?: MatchResult;
+}
+
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayError';
+  }
+}
+
+// Punches follow the camera unless an aiming mode picked another direction
+export function encodeFrame(input: InputState, aimDirection: THREE.Vector3, punchDirection: THREE.Vector3 = aimDirection): ReplayFrame {
+  let buttons = 0;
+  if (input.jump) buttons |= ButtonBits.Jump;
+  if (input.punch) buttons |= ButtonBits.Punch;
+  if (input.jumpPressed) buttons |= ButtonBits.JumpPressed;
+  if (input.punchPressed) buttons |= ButtonBits.PunchPressed;
+  if (input.grab) buttons |= ButtonBits.Grab;
+  if (input.grabPressed) buttons |= ButtonBits.GrabPressed;
+
+  return {
+    buttons,
+    moveX: quantize(input.movement.x, AXIS_SCALE, 127),
+    moveZ: quantize(input.movement.z, AXIS_SCALE, 127),
+    aimYaw: quantizeYaw(aimDirection),
+    punchYaw: quantizeYaw(punchDirection)
+  };
+}
+
+export function decodeInput(frame: ReplayFrame): InputState {
+  return {
+    movement: { x: frame.moveX / AXIS_SCALE, z: frame.moveZ / AXIS_SCALE },
+    jump: (frame.buttons & ButtonBits.Jump) !== 0,
+    punch: (frame.buttons & ButtonBits.Punch) !== 0,
+    jumpPressed: (frame.buttons & ButtonBits.JumpPressed) !== 0,
+    punchPressed: (frame.buttons & ButtonBits.PunchPressed) !== 0,
+    grab: (frame.buttons & ButtonBits.Grab) !== 0,
+    grabPressed: (frame.buttons & ButtonBits.GrabPressed) !== 0
+  };
+}
+
+export function decodeAim(frame: ReplayFrame): THREE.Vector3 {
+  return yawToDirection(frame.aimYaw);
+}
+
+export function decodePunchAim(frame: ReplayFrame): THREE.Vector3 {
+  return yawToDirection(frame.punchYaw);
+}
+
+export function serializeReplay(replay: Replay): string {
+  const file: ReplayFile = {
+    version: replay.version,
+    seed: replay.seed,
+    difficulty: replay.difficulty,
+    tickRate: replay.tickRate,
+    tuning: replay.tuning,
+    tuningChanges: replay.tuningChanges,
+    frameCount: replay.frames.length,
+    frames: encodeFrames(replay.frames),
+    result: replay.result
+  };
+  return JSON.stringify(file);
+}
+
+export function parseReplay(text: string): Replay {
+  let file: ReplayFile;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new ReplayError('Replay file is not valid JSON');
+  }
+
+  if (typeof file !== 'object' || file === null) {
+    throw new ReplayError('Replay file is empty');
+  }
+  if (file.version !== REPLAY_VERSION) {
+    throw new ReplayError(`Unsupported replay version ${file.version} (expected ${REPLAY_VERSION})`);
+  }
+  if (typeof file.seed !== 'number' || typeof file.frames !== 'string' || !file.tuning) {
+    throw new ReplayError('Replay file is missing seed, tuning or frames');
+  }
+  if (!isDifficultyId(file.difficulty)) {
+    throw new ReplayError(`Replay has unknown difficulty ${JSON.stringify(file.difficulty)}`);
+  }
+
+  const frames = decodeFrames(file.frames);
+  if (frames.length !== file.frameCount) {
+    throw new ReplayError(`Replay is truncated: expected ${file.frameCount} frames, found ${frames.length}`);
+  }
+
+  return {
+    version: file.version,
+    seed: file.seed,
+    difficulty: file.difficulty,
+    tickRate: file.tickRate,
+    tuning: { ...DEFAULT_TUNING, ...file.tuning }, // Fields added later keep their defaults
+    tuningChanges: (file.tuningChanges ?? []).map(change => ({ ...change, tuning: { ...DEFAULT_TUNING, ...change.tuning } })),
+    frames,
+    result: file.result
+  };
+}
+
+function quantize(value: number, scale: number, limit: number): number {
+  return Math.max(-limit, Math.min(limit, Math.round(value * scale)));
+}
+
+function quantizeYaw(direction: THREE.Vector3): number {
+  return quantize(Math.atan2(direction.x, direction.z), YAW_SCALE, 32767);
+}
+
+function yawToDirection(quantizedYaw: number): THREE.Vector3 {
+  const yaw = quantizedYaw / YAW_SCALE;
+  return new THREE.Vector3(Math.sin(yaw), 0, Math.cos(yaw));
+}
+
+function framesEqual(a: ReplayFrame, b: ReplayFrame): boolean {
+  return a.buttons === b.buttons && a.moveX === b.moveX && a.moveZ === b.moveZ && a.aimYaw === b.aimYaw && a.punchYaw === b.punchYaw;
+}
+
+// Each run: [count][buttons][moveX][moveZ][aimYaw lo][aimYaw hi][punchYaw lo][punchYaw hi]
+function encodeFrames(frames: ReplayFrame[]): string {
+  const bytes: number[] = [];
+  let i = 0;
+  while (i < frames.length) {
+    let run = 1;
+    while (i + run < frames.length && run < MAX_RUN_LENGTH && framesEqual(frames[i], frames[i + run])) {
+      run++;
+    }
+
+    const frame = frames[i];
+    const yaw = frame.aimYaw & 0xffff;
+    const punchYaw = frame.punchYaw & 0xffff;
+    bytes.push(run, frame.buttons, frame.moveX & 0xff, frame.moveZ & 0xff, yaw & 0xff, yaw >> 8, punchYaw & 0xff, punchYaw >> 8);
+    i += run;
+  }
+
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function decodeFrames(encoded: string): ReplayFrame[] {
+  let binary: string;
+  try {
+    binary = atob(encoded);
+  } catch {
+    throw new ReplayError('Replay frame data is corrupted');
+  }
+
+  const runSize = BYTES_PER_FRAME + 1;
+  if (binary.length % runSize !== 0) {
+    throw new ReplayError('Replay frame data has an invalid length');
+  }
+
+  const frames: ReplayFrame[] = [];
+  for (let offset = 0; offset < binary.length; offset += runSize) {
+    const byte = (index: number) => binary.charCodeAt(offset + index);
+    const run = byte(0);
+    const frame: ReplayFrame = {
+      buttons: byte(1),
+      moveX: (byte(2) << 24) >> 24, // Sign-extend int8
+      moveZ: (byte(3) << 24) >> 24,
+      aimYaw: ((byte(4) | (byte(5) << 8)) << 16) >> 16, // Sign-extend int16
+      punchYaw: ((byte(6) | (byte(7) << 8)) << 16) >> 16
+    };
+    for (let i = 0; i < run; i++) {
+      frames.push({ ...frame });
+    }
+  }
+  return frames;
+}
@@ -0,0 +1,34 @@
+import { SimulationTuning } from '../Simulation';
+import { Replay, ReplayFrame } from './Replay';
+
+export class ReplayPlayer {
+  private replay: Replay;
+  private tick = 0;
+
+  constructor(replay: Replay) {
+    this.replay = replay;
+  }
+
+  // Tuning to apply before the frame at the current tick, if it changed
+  getPendingTuning(): SimulationTuning | null {
+    const changes = this.replay.tuningChanges.filter(c => c.tick === this.tick);
+    return changes.length > 0 ? changes[changes.length - 1].tuning : null;
+  }
+
+  nextFrame(): ReplayFrame | null {
+    if (this.isFinished()) return null;
+    return this.replay.frames[this.tick++];
+  }
+
+  isFinished(): boolean {
+    return this.tick >= this.replay.frames.length;
+  }
+
+  getReplay(): Replay {
+    return this.replay;
+  }
+
+  getProgress(): number {
+    return this.replay.frames.length > 0 ? this.tick / this.replay.frames.length : 1;
+  }
+}
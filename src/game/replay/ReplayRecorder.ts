@@ -0,0 +1,59 @@
+import { SimulationTuning, MatchResult } from '../Simulation';
+import { Replay, ReplayFrame, TuningChange, REPLAY_VERSION } from './Replay';
+import { DifficultyId } from '../DifficultyPresets';
+
+export class ReplayRecorder {
+  private seed = 0;
+  private difficulty: DifficultyId = 'normal';
+  private tickRate = 60;
+  private tuning!: SimulationTuning;
+  private tuningChanges: TuningChange[] = [];
+  private frames: ReplayFrame[] = [];
+  private recording = false;
+
+  start(seed: number, difficulty: DifficultyId, tuning: SimulationTuning, tickRate: number) {
+    this.seed = seed;
+    this.difficulty = difficulty;
+    this.tuning = { ...tuning };
+    this.tickRate = tickRate;
+    this.tuningChanges = [];
+    this.frames = [];
+    this.recording = true;
+  }
+
+  record(frame: ReplayFrame) {
+    if (!this.recording) return;
+    this.frames.push(frame);
+  }
+
+  // Debug sliders can change tuning mid-match; playback must apply them on the same tick
+  recordTuningChange(tuning: SimulationTuning) {
+    if (!this.recording) return;
+    this.tuningChanges.push({ tick: this.frames.length, tuning: { ...tuning } });
+  }
+
+  finish(result: MatchResult): Replay | null {
+    if (!this.recording) return null;
+    this.recording = false;
+
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      difficulty: this.difficulty,
+      tickRate: this.tickRate,
+      tuning: this.tuning,
+      tuningChanges: this.tuningChanges,
+      frames: this.frames,
+      result
+    };
+  }
+
+  cancel() {
+    this.recording = false;
+    this.frames = [];
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+}
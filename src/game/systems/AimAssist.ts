@@ -0,0 +1,93 @@
+import * as THREE from 'three';
+import { InputDevice } from '../input/InputManager';
+import { Player } from '../entities/Player';
+import { Meteor } from '../entities/Meteor';
+
+// Which way punches go.
+// Resolved on the presentation side every tick and recorded into the input frame,
+// so replays reproduce the punches without re-running the assist.
+
+export type AimMode = 'camera' | 'movement' | 'auto';
+
+export const AIM_MODE_ORDER: AimMode[] = ['camera', 'movement', 'auto'];
+
+export const AIM_MODE_LABELS: Record<AimMode, string> = {
+  camera: 'Camera',
+  movement: 'Movement',
+  auto: 'Auto-aim'
+};
+
+export interface AimSettings {
+  mode: AimMode;
+  assistStrength: number; // 0 keeps the base direction, 1 snaps onto the target
+}
+
+// The fixed follow camera makes camera aim "always up the screen", so nobody starts there
+export const DEVICE_AIM_DEFAULTS: Record<InputDevice, AimSettings> = {
+  keyboard: { mode: 'movement', assistStrength: 0.4 },
+  touch: { mode: 'auto', assistStrength: 0.9 }, // Thumbs on glass can't aim finely
+  gamepad: { mode: 'auto', assistStrength: 0.6 }
+};
+
+export function isAimMode(value: unknown): value is AimMode {
+  return typeof value === 'string' && (AIM_MODE_ORDER as string[]).includes(value);
+}
+
+export class AimAssist {
+  private readonly coneHalfAngle = Math.PI / 3; // Targets up to 60° either side of the base direction
+  private readonly range = 4; // Measured along the ground, so meteors lock on while still high up
+  private target: Meteor | null = null;
+
+  // Direction the next punch should go, flat on the ground plane
+  resolve(settings: AimSettings, cameraDirection: THREE.Vector3, player: Player, meteors: readonly Meteor[]): THREE.Vector3 {
+    const base = cameraDirection.clone().setY(0).normalize();
+    if (settings.mode !== 'camera') {
+      // Facing is zero until the player first moves; keep the camera direction until then
+      const facing = player.getFacingDirection().setY(0);
+      if (facing.lengthSq() > 0) base.copy(facing.normalize());
+    }
+
+    this.target = settings.mode === 'auto' ? this.findTarget(base, player.getPosition(), meteors) : null;
+    if (!this.target) return base;
+
+    // Turn part of the way from the base direction toward the target
+    const toTarget = this.target.getPosition().sub(player.getPosition());
+    const baseYaw = Math.atan2(base.x, base.z);
+    const targetYaw = Math.atan2(toTarget.x, toTarget.z);
+    const turn = THREE.MathUtils.euclideanModulo(targetYaw - baseYaw + Math.PI, Math.PI * 2) - Math.PI;
+    const yaw = baseYaw + turn * THREE.MathUtils.clamp(settings.assistStrength, 0, 1);
+    return new THREE.Vector3(Math.sin(yaw), 0, Math.cos(yaw));
+  }
+
+  // The meteor auto-aim settled on at the last resolve, for the target marker
+  getTarget(): Meteor | null {
+    return this.target;
+  }
+
+  clear() {
+    this.target = null;
+  }
+
+  // Nearest punchable meteor in range and inside the cone around the base direction
+  private findTarget(base: THREE.Vector3, origin: THREE.Vector3, meteors: readonly Meteor[]): Meteor | null {
+    const minAlignment = Math.cos(this.coneHalfAngle);
+    let closest: Meteor | null = null;
+    let closestDistance = this.range;
+
+    for (const meteor of meteors) {
+      if (!meteor.canBeDestroyed()) continue;
+
+      const flat = meteor.getPosition().sub(origin).setY(0);
+      const distance = flat.length();
+      if (distance > closestDistance) continue;
+
+      // Straight overhead has no heading to turn toward
+      if (distance < 1e-3) continue;
+      if (flat.divideScalar(distance).dot(base) < minAlignment) continue;
+
+      closest = meteor;
+      closestDistance = distance;
+    }
+    return closest;
+  }
+}
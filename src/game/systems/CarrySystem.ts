@@ -0,0 +1,113 @@
+import * as THREE from 'three';
+import { Player } from '../entities/Player';
+import { Creature } from '../entities/Creature';
+import { InputState } from '../input/InputManager';
+import { GameEventBus } from '../core/GameEvents';
+
+// Picking up, carrying and throwing creatures.
+// Grab picks up the nearest creature in reach, or sets the carried one down;
+// punch while carrying throws it the way the player faces. Anything that knocks the
+// player around makes them let go.
+export class CarrySystem {
+  private events: GameEventBus;
+  private carried: Creature | null = null;
+  private released: Creature[] = []; // In the air until they land
+
+  private readonly reach = 1.2;                               // Horizontal pick-up range
+  private readonly carryOffset = new THREE.Vector3(0, 0.9, 0); // Held above the player's head
+  private readonly throwSpeed = 6;
+  private readonly throwLift = 5;
+  private readonly setDownSpeed = 1;
+  private readonly setDownLift = 2;
+  private readonly dropLift = 3; // Popped loose when the player gets hit
+
+  constructor(events: GameEventBus) {
+    this.events = events;
+
+    this.events.on('player_knocked_back', ({ player }) => this.drop(player));
+    this.events.on('player_fell', ({ player }) => this.drop(player));
+  }
+
+  // Run after the player moves and before creatures do, so the carried one tracks this tick's position
+  update(player: Player, creatures: Creature[], input: InputState) {
+    this.updateLandings();
+
+    if (this.carried && !this.carried.isCreatureAlive()) {
+      this.carried = null;
+      player.setCarrying(false);
+    }
+
+    if (this.carried) {
+      if (input.punchPressed) {
+        this.letGo(player, this.throwSpeed, this.throwLift, true);
+      } else if (input.grabPressed) {
+        this.letGo(player, this.setDownSpeed, this.setDownLift, false);
+      }
+    } else if (input.grabPressed && !player.isInKnockback() && !player.isRespawning()) {
+      this.pickUp(player, creatures);
+    }
+
+    this.carried?.carryTo(player.getPosition().add(this.carryOffset));
+  }
+
+  getCarried(): Creature | null {
+    return this.carried;
+  }
+
+  reset() {
+    this.carried = null;
+    this.released = [];
+  }
+
+  private pickUp(player: Player, creatures: Creature[]) {
+    const origin = player.getPosition();
+    let closest: Creature | null = null;
+    let closestDistance = this.reach;
+
+    for (const creature of creatures) {
+      if (!creature.isCreatureAlive() || creature.isAirborne()) continue;
+
+      const position = creature.getPosition();
+      const distance = Math.hypot(position.x - origin.x, position.z - origin.z);
+      if (distance <= closestDistance) {
+        closest = creature;
+        closestDistance = distance;
+      }
+    }
+    if (!closest) return;
+
+    closest.pickUp();
+    this.carried = closest;
+    player.setCarrying(true);
+    this.events.emit({ type: 'creature_picked_up', creature: closest, player });
+  }
+
+  private letGo(player: Player, speed: number, lift: number, thrown: boolean) {
+    const creature = this.carried;
+    if (!creature) return;
+
+    // Along the way the player faces, not the punch aim: auto-aim would bend it toward a meteor
+    const velocity = player.getFacingDirection().multiplyScalar(speed);
+    velocity.y = lift;
+    creature.release(velocity);
+
+    this.carried = null;
+    this.released.push(creature);
+    player.setCarrying(false);
+    this.events.emit({ type: 'creature_released', creature, player, thrown });
+  }
+
+  private drop(player: Player) {
+    this.letGo(player, 0, this.dropLift, false);
+  }
+
+  private updateLandings() {
+    this.released = this.released.filter(creature => {
+      if (creature.isAirborne() && creature.isCreatureAlive()) return true;
+      if (creature.isCreatureAlive()) {
+        this.events.emit({ type: 'creature_landed', creature, position: creature.getPosition() });
+      }
+      return false;
+    });
+  }
+}
@@ -1,21 +1,27 @@
 import * as THREE from 'three';
 import { Player } from '../entities/Player';
 import { Creature } from '../entities/Creature';
-import { Meteor, MeteorState } from '../entities/Meteor';
-
-export interface CollisionEvent {
-  type: 'punch_hit_meteor' | 'meteor_explosion' | 'meteor_hit_player' | 'meteor_hit_creature';
-  data: any;
-}
+import { Meteor, MeteorChain, MeteorState } from '../entities/Meteor';
+import { GameEventBus } from '../core/GameEvents';
 
 export class CollisionSystem {
-  private events: CollisionEvent[] = [];
+  private events: GameEventBus;
+  private nextChainId = 1;
 
-  update(player: Player, creatures: Creature[], meteors: Meteor[]) {
-    this.events = [];
+  // Deflection tuning
+  private readonly deflectSpeed = 14;
+  private readonly deflectLift = 3;
 
+  constructor(events: GameEventBus) {
+    this.events = events;
+  }
+
+  update(player: Player, creatures: Creature[], meteors: Meteor[]) {
     // Check punch vs meteors
     this.checkPunchVsMeteors(player, meteors);
+
+    // Check knocked-away meteors vs meteors still falling
+    this.checkDeflectedVsMeteors(meteors);
     
     // Check meteor explosions vs creatures and player
     this.checkMeteorExplosions(player, creatures, meteors);
@@ -25,28 +31,84 @@ export class CollisionSystem {
   }
 
   private checkPunchVsMeteors(player: Player, meteors: Meteor[]) {
-    const punchSphere = player.getPunchSphere();
-    if (!punchSphere) return;
+    for (const volume of player.getHitVolumes()) {
+      for (const meteor of meteors) {
+        if (!meteor.canBeDestroyed() || meteor.wasHitByPunch(volume.id)) continue;
 
-    for (const meteor of meteors) {
-      if (!meteor.canBeDestroyed()) continue;
+        const meteorSphere = meteor.getBoundingSphere();
+        if (!this.sphereIntersectsSphere(volume.sphere, meteorSphere)) continue;
 
-      const meteorSphere = meteor.getBoundingSphere();
-      if (this.sphereIntersectsSphere(punchSphere, meteorSphere)) {
-        meteor.destroy();
-        
-        this.events.push({
-          type: 'punch_hit_meteor',
-          data: {
-            meteor,
-            player,
-            position: meteor.getPosition()
-          }
+        const broken = meteor.takePunch(volume.id);
+        if (!broken) {
+          this.events.emit({ type: 'meteor_damaged', meteor, player, position: meteor.getPosition(), move: volume.move });
+          continue;
+        }
+
+        // Along the attack, or straight away from a shockwave's center
+        const direction = volume.direction.lengthSq() > 0
+          ? volume.direction.clone()
+          : meteor.getPosition().sub(volume.sphere.center);
+        const chain: MeteorChain = { id: this.nextChainId++, length: 1 };
+        const deflected = this.knockAway(meteor, direction, chain);
+
+        this.events.emit({
+          type: 'punch_hit',
+          meteor,
+          player,
+          position: meteor.getPosition(),
+          move: volume.move,
+          deflected,
+          chain: { ...chain }
+        });
+      }
+    }
+  }
+
+  // A deflected meteor knocks any falling meteor it touches onward, growing its chain
+  private checkDeflectedVsMeteors(meteors: Meteor[]) {
+    for (const projectile of meteors) {
+      const chain = projectile.getChain();
+      if (!projectile.isDeflected() || !chain) continue;
+
+      const projectileSphere = projectile.getBoundingSphere();
+      for (const meteor of meteors) {
+        if (!meteor.canBeDestroyed() || meteor.getKind().boss) continue; // Bosses only yield to punches
+        if (!this.sphereIntersectsSphere(projectileSphere, meteor.getBoundingSphere())) continue;
+
+        // Carry on along the projectile's line, bent by where it was struck
+        const direction = projectile.getVelocity().setY(0).normalize()
+          .add(meteor.getPosition().sub(projectile.getPosition()).setY(0).normalize());
+        chain.length++;
+        this.knockAway(meteor, direction, chain);
+
+        this.events.emit({
+          type: 'meteor_chain_hit',
+          meteor,
+          projectile,
+          position: meteor.getPosition(),
+          chain: { ...chain }
         });
       }
     }
   }
 
+  // Splitting kinds and bosses burst where they are; everything else flies off.
+  // Returns true when the meteor was deflected.
+  private knockAway(meteor: Meteor, direction: THREE.Vector3, chain: MeteorChain): boolean {
+    const kind = meteor.getKind();
+    if (kind.split || kind.boss) {
+      meteor.destroy();
+      return false;
+    }
+
+    direction.y = 0;
+    if (direction.lengthSq() === 0) direction.set(0, 0, -1);
+    const velocity = direction.normalize().multiplyScalar(this.deflectSpeed);
+    velocity.y = this.deflectLift;
+    meteor.deflect(velocity, chain);
+    return true;
+  }
+
   private checkMeteorExplosions(player: Player, creatures: Creature[], meteors: Meteor[]) {
     for (const meteor of meteors) {
       if (!meteor.isExploded()) continue;
@@ -61,45 +123,40 @@ export class CollisionSystem {
         if (this.sphereIntersectsSphere(explosionSphere, creatureSphere)) {
           creature.takeDamage();
           
-          this.events.push({
-            type: 'meteor_hit_creature',
-            data: {
-              meteor,
-              creature,
-              position: creature.getPosition()
-            }
+          this.events.emit({
+            type: 'creature_died',
+            meteor,
+            creature,
+            position: creature.getPosition(),
+            directHit: false
           });
         }
       }
       
-      // Check explosion vs player
+      // Check explosion vs player (nothing lands while they're out of play or blinking)
       const playerSphere = player.getBoundingSphere();
-      if (this.sphereIntersectsSphere(explosionSphere, playerSphere)) {
+      if (!player.isInvulnerable() && this.sphereIntersectsSphere(explosionSphere, playerSphere)) {
         const knockbackDirection = player.getPosition()
           .sub(meteor.getTargetPosition())
           .normalize();
         
         player.applyKnockback(knockbackDirection, 8);
         
-        this.events.push({
-          type: 'meteor_hit_player',
-          data: {
-            meteor,
-            player,
-            position: player.getPosition(),
-            knockbackDirection
-          }
+        this.events.emit({
+          type: 'player_knocked_back',
+          meteor,
+          player,
+          position: player.getPosition(),
+          direction: knockbackDirection,
+          directHit: false
         });
       }
 
-      // Mark explosion as handled
-      this.events.push({
+      this.events.emit({
         type: 'meteor_explosion',
-        data: {
-          meteor,
-          position: meteor.getTargetPosition(),
-          radius: explosionSphere.radius
-        }
+        meteor,
+        position: meteor.getTargetPosition(),
+        radius: explosionSphere.radius
       });
     }
   }
@@ -118,36 +175,32 @@ export class CollisionSystem {
         if (this.sphereIntersectsSphere(meteorSphere, creatureSphere)) {
           creature.takeDamage();
           
-          this.events.push({
-            type: 'meteor_hit_creature',
-            data: {
-              meteor,
-              creature,
-              position: creature.getPosition(),
-              directHit: true
-            }
+          this.events.emit({
+            type: 'creature_died',
+            meteor,
+            creature,
+            position: creature.getPosition(),
+            directHit: true
           });
         }
       }
       
       // Check direct hit vs player
       const playerSphere = player.getBoundingSphere();
-      if (this.sphereIntersectsSphere(meteorSphere, playerSphere)) {
+      if (!player.isInvulnerable() && this.sphereIntersectsSphere(meteorSphere, playerSphere)) {
         const knockbackDirection = player.getPosition()
           .sub(meteor.getPosition())
           .normalize();
         
         player.applyKnockback(knockbackDirection, 10); // Stronger knockback for direct hit
         
-        this.events.push({
-          type: 'meteor_hit_player',
-          data: {
-            meteor,
-            player,
-            position: player.getPosition(),
-            knockbackDirection,
-            directHit: true
-          }
+        this.events.emit({
+          type: 'player_knocked_back',
+          meteor,
+          player,
+          position: player.getPosition(),
+          direction: knockbackDirection,
+          directHit: true
         });
       }
     }
@@ -158,14 +211,6 @@ export class CollisionSystem {
     return distance <= (sphere1.radius + sphere2.radius);
   }
 
-  getEvents(): CollisionEvent[] {
-    return [...this.events];
-  }
-
-  clearEvents() {
-    this.events = [];
-  }
-
   // Utility methods for other systems
   static checkSphereIntersection(sphere1: THREE.Sphere, sphere2: THREE.Sphere): boolean {
     const distance = sphere1.center.distanceTo(sphere2.center);
@@ -0,0 +1,189 @@
+import * as THREE from 'three';
+import { GameEventBus } from '../core/GameEvents';
+import { World } from '../core/World';
+import { Creature } from '../entities/Creature';
+
+// Watches how the player is doing and nudges spawn pressure up or down.
+// Runs on gameplay time inside the simulation, so replays reproduce every decision.
+
+export interface DirectorModifiers {
+  spawnIntervalMultiplier: number; // Below 1 spawns faster
+  speedMultiplier: number;
+  aggressiveness: number;          // Chance a meteor is aimed at a creature
+}
+
+export interface DirectorConfig {
+  enabled: boolean;
+  evaluationInterval: number; // Seconds between decisions
+  signalWindow: number;       // Seconds of history the signals look at
+  maxStep: number;            // Largest change to any modifier per decision
+  nearMissMargin: number;     // Extra distance past the blast that still counts as close
+  bounds: {
+    spawnIntervalMultiplier: [number, number];
+    speedMultiplier: [number, number];
+    aggressiveness: [number, number];
+  };
+  initial: DirectorModifiers;
+}
+
+export interface DirectorSignals {
+  punchHitRate: number | null; // Null until enough meteors have come down
+  creaturesLost: number;
+  nearMisses: number;
+  timeSinceLoss: number;
+}
+
+export interface DirectorDecision {
+  time: number;
+  signals: DirectorSignals;
+  score: number; // -1 struggling .. 1 cruising
+  before: DirectorModifiers;
+  after: DirectorModifiers;
+  reason: string;
+}
+
+export const DEFAULT_DIRECTOR_CONFIG: DirectorConfig = {
+  enabled: true,
+  evaluationInterval: 2,
+  signalWindow: 15,
+  maxStep: 0.06,
+  nearMissMargin: 1.0,
+  bounds: {
+    spawnIntervalMultiplier: [0.75, 1.3],
+    speedMultiplier: [0.85, 1.2],
+    aggressiveness: [0, 0.6]
+  },
+  initial: { spawnIntervalMultiplier: 1, speedMultiplier: 1, aggressiveness: 0.15 }
+};
+
+export class DifficultyDirector {
+  private world: World;
+  private config: DirectorConfig;
+  private modifiers: DirectorModifiers;
+  private time = 0;
+  private evaluationTimer = 0;
+  private lastLossTime = 0;
+  private decisions: DirectorDecision[] = [];
+
+  // Timestamps of recent signal events, pruned to the signal window
+  private punchHits: number[] = [];
+  private groundHits: number[] = [];
+  private losses: number[] = [];
+  private nearMisses: number[] = [];
+
+  constructor(world: World, events: GameEventBus, config: DirectorConfig = DEFAULT_DIRECTOR_CONFIG) {
+    this.world = world;
+    this.config = config;
+    this.modifiers = { ...config.initial };
+
+    events.on('punch_hit', () => this.punchHits.push(this.time));
+    events.on('creature_died', () => {
+      this.losses.push(this.time);
+      this.lastLossTime = this.time;
+    });
+    events.on('meteor_explosion', ({ position, radius }) => {
+      this.groundHits.push(this.time);
+      if (this.isNearMiss(position, radius)) {
+        this.nearMisses.push(this.time);
+      }
+    });
+  }
+
+  reset() {
+    this.modifiers = { ...this.config.initial };
+    this.time = 0;
+    this.evaluationTimer = 0;
+    this.lastLossTime = 0;
+    this.decisions = [];
+    this.punchHits = [];
+    this.groundHits = [];
+    this.losses = [];
+    this.nearMisses = [];
+  }
+
+  update(deltaTime: number): DirectorDecision | null {
+    this.time += deltaTime;
+    if (!this.config.enabled) return null;
+
+    this.evaluationTimer += deltaTime;
+    if (this.evaluationTimer < this.config.evaluationInterval) return null;
+    this.evaluationTimer = 0;
+
+    return this.decide();
+  }
+
+  // Creatures that died in this blast were already removed by the collision pass,
+  // so anyone still alive but close got away
+  private isNearMiss(position: THREE.Vector3, radius: number): boolean {
+    const reach = radius + this.config.nearMissMargin;
+    return this.world.query(Creature).some(creature =>
+      creature.isCreatureAlive() && creature.getPosition().distanceTo(position) <= reach
+    );
+  }
+
+  private readSignals(): DirectorSignals {
+    const since = this.time - this.config.signalWindow;
+    const recent = (times: number[]) => {
+      while (times.length > 0 && times[0] < since) times.shift();
+      return times.length;
+    };
+
+    const hits = recent(this.punchHits);
+    const resolved = hits + recent(this.groundHits);
+
+    return {
+      punchHitRate: resolved >= 3 ? hits / resolved : null,
+      creaturesLost: recent(this.losses),
+      nearMisses: recent(this.nearMisses),
+      timeSinceLoss: this.time - this.lastLossTime
+    };
+  }
+
+  private decide(): DirectorDecision {
+    const signals = this.readSignals();
+
+    // Each signal contributes a weighted vote; positive means the player has room to spare
+    const votes: [string, number][] = [];
+    if (signals.punchHitRate !== null) {
+      votes.push([`hit rate ${Math.round(signals.punchHitRate * 100)}%`, (signals.punchHitRate - 0.4) * 0.8]);
+    }
+    if (signals.creaturesLost > 0) {
+      votes.push([`${signals.creaturesLost} creature(s) lost`, -0.5 * signals.creaturesLost]);
+    }
+    if (signals.nearMisses > 0) {
+      votes.push([`${signals.nearMisses} near miss(es)`, -0.12 * signals.nearMisses]);
+    }
+    votes.push([`${signals.timeSinceLoss.toFixed(0)}s since last loss`, Math.min(1, signals.timeSinceLoss / 20) * 0.3]);
+
+    const score = THREE.MathUtils.clamp(votes.reduce((sum, [, vote]) => sum + vote, 0), -1, 1);
+    const before = { ...this.modifiers };
+    const step = score * this.config.maxStep;
+    const { bounds } = this.config;
+
+    this.modifiers = {
+      spawnIntervalMultiplier: THREE.MathUtils.clamp(before.spawnIntervalMultiplier - step, ...bounds.spawnIntervalMultiplier),
+      speedMultiplier: THREE.MathUtils.clamp(before.speedMultiplier + step, ...bounds.speedMultiplier),
+      aggressiveness: THREE.MathUtils.clamp(before.aggressiveness + step, ...bounds.aggressiveness)
+    };
+
+    const direction = score > 0.05 ? 'harder' : score < -0.05 ? 'easier' : 'hold';
+    const decision: DirectorDecision = {
+      time: this.time,
+      signals,
+      score,
+      before,
+      after: { ...this.modifiers },
+      reason: `${direction}: ${votes.map(([label, vote]) => `${label} (${vote >= 0 ? '+' : ''}${vote.toFixed(2)})`).join(', ')}`
+    };
+    this.decisions.push(decision);
+    return decision;
+  }
+
+  getModifiers(): DirectorModifiers {
+    return { ...this.modifiers };
+  }
+
+  getDecisionLog(): DirectorDecision[] {
+    return [...this.decisions];
+  }
+}
@@ -1,198 +1,173 @@
 import * as THREE from 'three';
+import { Random, RandomStream } from '../core/Random';
+import { GameEventBus } from '../core/GameEvents';
+import { Unsubscribe } from '../core/EventBus';
+import { ParticleBuffer } from '../three/ParticleBuffer';
 
-interface ParticleEffect {
-  id: string;
-  mesh: THREE.Points;
-  velocities: THREE.Vector3[];
-  lifetimes: number[];
-  maxLifetime: number;
-  startTime: number;
-}
+// Spec section 9: no more than this many particles alive at once
+export const PARTICLE_BUDGET = 200;
 
 export class EffectsSystem {
-  private effects: ParticleEffect[] = [];
   private scene!: THREE.Scene;
+  private rng: RandomStream = Random.instance.stream('effects');
+  private subscriptions: Unsubscribe[] = [];
+
+  // One buffer per particle look; both draw from the same budget
+  private sparks = new ParticleBuffer(PARTICLE_BUDGET, 0.1);
+  private embers = new ParticleBuffer(PARTICLE_BUDGET, 0.15);
+  private readonly gravity = -9.8;
+
+  // Scratch values reused for every emitted particle
+  private spawnPosition = new THREE.Vector3();
+  private spawnVelocity = new THREE.Vector3();
+  private spawnColor = new THREE.Color();
+
+  private requestedParticles = 0;
+  private droppedParticles = 0;
 
   constructor(scene: THREE.Scene) {
     this.scene = scene;
+    this.scene.add(this.sparks.points, this.embers.points);
+  }
+
+  subscribe(events: GameEventBus) {
+    this.subscriptions.push(
+      events.on('punch_hit', (event) => this.createMeteorDestructionEffect(event.position)),
+      events.on('meteor_damaged', (event) => this.createMeteorDestructionEffect(event.position)),
+      events.on('meteor_chain_hit', (event) => this.createMeteorDestructionEffect(event.position)),
+      events.on('meteor_explosion', (event) => this.createMeteorExplosionEffect(event.position, event.radius)),
+      events.on('player_fell', (event) => this.createRespawnEffect(event.player.getSpawnPosition(), event.player.getRespawnDelay()))
+    );
   }
 
   update(deltaTime: number) {
-    const currentTime = Date.now();
-    
-    for (let i = this.effects.length - 1; i >= 0; i--) {
-      const effect = this.effects[i];
-      const elapsed = (currentTime - effect.startTime) / 1000; // Convert to seconds
-      
-      if (elapsed >= effect.maxLifetime) {
-        // Remove expired effect
-        this.scene.remove(effect.mesh);
-        this.effects.splice(i, 1);
-        continue;
-      }
-      
-      this.updateParticleEffect(effect, deltaTime, elapsed);
-    }
+    // Age by game time so effects freeze while paused
+    this.sparks.update(deltaTime, this.gravity);
+    this.embers.update(deltaTime, this.gravity);
   }
 
-  private updateParticleEffect(effect: ParticleEffect, deltaTime: number, elapsed: number) {
-    const positions = effect.mesh.geometry.getAttribute('position') as THREE.BufferAttribute;
-    const colors = effect.mesh.geometry.getAttribute('color') as THREE.BufferAttribute;
-    
-    for (let i = 0; i < effect.velocities.length; i++) {
-      // Update position
-      const velocity = effect.velocities[i];
-      positions.setXYZ(
-        i,
-        positions.getX(i) + velocity.x * deltaTime,
-        positions.getY(i) + velocity.y * deltaTime,
-        positions.getZ(i) + velocity.z * deltaTime
-      );
-      
-      // Apply gravity to Y velocity
-      velocity.y += -9.8 * deltaTime;
-      
-      // Fade out over time
-      const alpha = Math.max(0, 1 - (elapsed / effect.maxLifetime));
-      colors.setW(i, alpha);
-    }
-    
-    positions.needsUpdate = true;
-    colors.needsUpdate = true;
+  getActiveParticles(): number {
+    return this.sparks.getCount() + this.embers.getCount();
+  }
+
+  getStats() {
+    return {
+      active: this.getActiveParticles(),
+      budget: PARTICLE_BUDGET,
+      requested: this.requestedParticles,
+      dropped: this.droppedParticles
+    };
+  }
+
+  // How many of the requested particles an effect may emit.
+  // Effects keep their full size while at least half the budget is free, then
+  // thin out as it fills so late effects still show up instead of vanishing.
+  private allocate(requested: number): number {
+    const available = PARTICLE_BUDGET - this.getActiveParticles();
+    const headroom = Math.min(1, (available / PARTICLE_BUDGET) * 2);
+    const granted = Math.min(available, Math.ceil(requested * headroom));
+
+    this.requestedParticles += requested;
+    this.droppedParticles += requested - granted;
+    return granted;
   }
 
   createMeteorDestructionEffect(position: THREE.Vector3) {
-    const particleCount = 20;
-    const positions = new Float32Array(particleCount * 3);
-    const colors = new Float32Array(particleCount * 4);
-    const velocities: THREE.Vector3[] = [];
+    const particleCount = this.allocate(20);
 
     for (let i = 0; i < particleCount; i++) {
-      const i3 = i * 3;
-      const i4 = i * 4;
-      
       // Start position (slightly randomized)
-      positions[i3] = position.x + (Math.random() - 0.5) * 0.5;
-      positions[i3 + 1] = position.y + (Math.random() - 0.5) * 0.5;
-      positions[i3 + 2] = position.z + (Math.random() - 0.5) * 0.5;
-      
+      this.spawnPosition.set(
+        position.x + (this.rng.next() - 0.5) * 0.5,
+        position.y + (this.rng.next() - 0.5) * 0.5,
+        position.z + (this.rng.next() - 0.5) * 0.5
+      );
+
       // Random velocity (explosive outward)
-      const velocity = new THREE.Vector3(
-        (Math.random() - 0.5) * 8,
-        Math.random() * 6 + 2, // Upward bias
-        (Math.random() - 0.5) * 8
+      this.spawnVelocity.set(
+        (this.rng.next() - 0.5) * 8,
+        this.rng.next() * 6 + 2, // Upward bias
+        (this.rng.next() - 0.5) * 8
       );
-      velocities.push(velocity);
-      
+
       // Orange/red/yellow colors for meteor destruction
-      const colorVariant = Math.random();
+      const colorVariant = this.rng.next();
       if (colorVariant < 0.3) {
-        // Red
-        colors[i4] = 1.0;
-        colors[i4 + 1] = 0.2;
-        colors[i4 + 2] = 0.1;
+        this.spawnColor.setRGB(1.0, 0.2, 0.1); // Red
       } else if (colorVariant < 0.6) {
-        // Orange
-        colors[i4] = 1.0;
-        colors[i4 + 1] = 0.5;
-        colors[i4 + 2] = 0.0;
+        this.spawnColor.setRGB(1.0, 0.5, 0.0); // Orange
       } else {
-        // Yellow
-        colors[i4] = 1.0;
-        colors[i4 + 1] = 1.0;
-        colors[i4 + 2] = 0.2;
+        this.spawnColor.setRGB(1.0, 1.0, 0.2); // Yellow
       }
-      colors[i4 + 3] = 1.0; // Alpha
-    }
-
-    const geometry = new THREE.BufferGeometry();
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 4));
-
-    const material = new THREE.PointsMaterial({
-      size: 0.1,
-      vertexColors: true,
-      transparent: true,
-      blending: THREE.AdditiveBlending
-    });
-
-    const points = new THREE.Points(geometry, material);
-    this.scene.add(points);
-
-    const effect: ParticleEffect = {
-      id: `meteor_destruction_${Date.now()}`,
-      mesh: points,
-      velocities,
-      lifetimes: new Array(particleCount).fill(0),
-      maxLifetime: 1.5, // 1.5 seconds
-      startTime: Date.now()
-    };
 
-    this.effects.push(effect);
+      this.sparks.emit({
+        position: this.spawnPosition,
+        velocity: this.spawnVelocity,
+        color: this.spawnColor,
+        lifetime: 1.5 // 1.5 seconds
+      });
+    }
   }
 
   createMeteorExplosionEffect(position: THREE.Vector3, radius: number) {
-    const particleCount = 30;
-    const positions = new Float32Array(particleCount * 3);
-    const colors = new Float32Array(particleCount * 4);
-    const velocities: THREE.Vector3[] = [];
+    const particleCount = this.allocate(30);
 
     for (let i = 0; i < particleCount; i++) {
-      const i3 = i * 3;
-      const i4 = i * 4;
-      
-      // Start position
-      positions[i3] = position.x;
-      positions[i3 + 1] = position.y;
-      positions[i3 + 2] = position.z;
-      
-      // Radial explosion velocity
+      // Radial explosion velocity, spread evenly over however many particles we got
       const angle = (i / particleCount) * Math.PI * 2;
-      const velocity = new THREE.Vector3(
-        Math.cos(angle) * (3 + Math.random() * 2),
-        Math.random() * 3,
-        Math.sin(angle) * (3 + Math.random() * 2)
+      this.spawnVelocity.set(
+        Math.cos(angle) * (3 + this.rng.next() * 2),
+        this.rng.next() * 3,
+        Math.sin(angle) * (3 + this.rng.next() * 2)
       );
-      velocities.push(velocity);
-      
+
       // Red/orange explosion colors
-      colors[i4] = 1.0;
-      colors[i4 + 1] = Math.random() * 0.5;
-      colors[i4 + 2] = 0.0;
-      colors[i4 + 3] = 1.0;
+      this.spawnColor.setRGB(1.0, this.rng.next() * 0.5, 0.0);
+
+      this.embers.emit({
+        position,
+        velocity: this.spawnVelocity,
+        color: this.spawnColor,
+        lifetime: 2.0 // 2 seconds
+      });
     }
+  }
 
-    const geometry = new THREE.BufferGeometry();
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 4));
-
-    const material = new THREE.PointsMaterial({
-      size: 0.15,
-      vertexColors: true,
-      transparent: true,
-      blending: THREE.AdditiveBlending
-    });
-
-    const points = new THREE.Points(geometry, material);
-    this.scene.add(points);
-
-    const effect: ParticleEffect = {
-      id: `meteor_explosion_${Date.now()}`,
-      mesh: points,
-      velocities,
-      lifetimes: new Array(particleCount).fill(0),
-      maxLifetime: 2.0, // 2 seconds
-      startTime: Date.now()
-    };
+  // A column of light rising from the spawn point while the player is on the way back
+  createRespawnEffect(position: THREE.Vector3, duration: number) {
+    const particleCount = this.allocate(24);
 
-    this.effects.push(effect);
+    for (let i = 0; i < particleCount; i++) {
+      // Ring around the spawn point at ground level
+      const angle = (i / particleCount) * Math.PI * 2;
+      this.spawnPosition.set(
+        position.x + Math.cos(angle) * 0.4,
+        position.y - 0.5,
+        position.z + Math.sin(angle) * 0.4
+      );
+
+      // Float straight up, slowing as the delay runs out
+      this.spawnVelocity.set(0, 6 + this.rng.next() * 4, 0);
+
+      // Pale blue to white
+      this.spawnColor.setRGB(0.6 + this.rng.next() * 0.4, 0.9, 1.0);
+
+      this.sparks.emit({
+        position: this.spawnPosition,
+        velocity: this.spawnVelocity,
+        color: this.spawnColor,
+        lifetime: duration
+      });
+    }
   }
 
   dispose() {
-    // Clean up all effects
-    for (const effect of this.effects) {
-      this.scene.remove(effect.mesh);
-    }
-    this.effects = [];
+    this.subscriptions.forEach(unsubscribe => unsubscribe());
+    this.subscriptions = [];
+
+    // Clean up the shared buffers
+    this.scene.remove(this.sparks.points, this.embers.points);
+    this.sparks.dispose();
+    this.embers.dispose();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,63 @@
+import * as THREE from 'three';
+import { Meteor, MeteorLaunch } from '../entities/Meteor';
+import { MeteorKind, MeteorKindId } from '../entities/MeteorKinds';
+
+// Reuses finished meteors instead of building fresh meshes for every spawn.
+// Pools are per kind because each kind's geometry is sized for it.
+export class MeteorPool {
+  private free = new Map<MeteorKindId, Meteor[]>();
+  private readonly maxFreePerKind: number;
+  private created = 0;
+  private reused = 0;
+
+  constructor(maxFreePerKind = 12) {
+    this.maxFreePerKind = maxFreePerKind;
+  }
+
+  acquire(target: THREE.Vector3, kind: MeteorKind, launch: MeteorLaunch = {}): Meteor {
+    const meteor = this.free.get(kind.id)?.pop();
+    if (meteor) {
+      this.reused++;
+      meteor.relaunch(target, launch);
+      return meteor;
+    }
+
+    this.created++;
+    return new Meteor(target, kind, launch);
+  }
+
+  // Caller must already have taken the meteor out of the world
+  release(meteor: Meteor) {
+    const id = meteor.getKind().id;
+    let list = this.free.get(id);
+    if (!list) {
+      list = [];
+      this.free.set(id, list);
+    }
+
+    if (list.length < this.maxFreePerKind) {
+      list.push(meteor);
+    } else {
+      meteor.dispose();
+    }
+  }
+
+  // Build meteors ahead of time so the first busy phase does not allocate
+  prewarm(kind: MeteorKind, count: number) {
+    for (let i = 0; i < count; i++) {
+      this.created++;
+      this.release(new Meteor(new THREE.Vector3(), kind));
+    }
+  }
+
+  getStats() {
+    let free = 0;
+    this.free.forEach(list => free += list.length);
+    return { created: this.created, reused: this.reused, free };
+  }
+
+  dispose() {
+    this.free.forEach(list => list.forEach(meteor => meteor.dispose()));
+    this.free.clear();
+  }
+}
@@ -1,25 +1,56 @@
 import * as THREE from 'three';
-import { Meteor } from '../entities/Meteor';
+import { Meteor, MeteorLaunch } from '../entities/Meteor';
+import { TrajectorySpec, BALLISTIC_GRAVITY, VERTICAL_TRAJECTORY } from '../entities/MeteorTrajectory';
+import { MeteorKind, MeteorKindId, METEOR_KINDS } from '../entities/MeteorKinds';
+import { Random, RandomStream } from '../core/Random';
+import { GameEventBus } from '../core/GameEvents';
+import { World } from '../core/World';
+import { WaveScript, WavePhase, WaveBoss, BossDefeatOutcome, DEFAULT_WAVE_SCRIPT } from '../waves/WaveScript';
+import { DirectorModifiers } from './DifficultyDirector';
+import { TargetingContext, TargetingStrategy, TARGETING_STRATEGIES } from './TargetingStrategies';
+import { MeteorPool } from './MeteorPool';
+import { BeginnerExplosionRule } from '../DifficultyPresets';
 
-interface DifficultyPhase {
-  startTime: number;
-  endTime: number;
-  spawnInterval: number;
+// A burst meteor or scripted drop waiting for its moment in the current phase
+interface ScheduledSpawn {
+  at: number;
+  kind?: MeteorKindId;
+  position?: THREE.Vector3; // Scripted drops land exactly here
+  boss?: WaveBoss;
+}
+
+// The boss currently in the air; there is never more than one
+interface ActiveBoss {
+  meteor: Meteor;
+  onDefeat: BossDefeatOutcome;
+  shedTimer: number;
 }
 
 export class MeteorSpawner {
-  private meteors: Meteor[] = [];
+  private world: World;
+  private pool = new MeteorPool();
   private spawnTimer = 0;
   private gameTime = 0;
   private recentTargets: THREE.Vector3[] = [];
   private readonly maxRecentTargets = 2;
+  private rng: RandomStream = Random.instance.stream('meteors');
+  private events: GameEventBus;
+
+  // Wave script progress
+  private script: WaveScript = DEFAULT_WAVE_SCRIPT;
+  private phaseIndex = 0;
+  private phaseTime = 0;
+  private loopCount = 0;
+  private scheduled: ScheduledSpawn[] = [];
+  private boss: ActiveBoss | null = null;
+
+  // Live pressure from the difficulty director
+  private director: DirectorModifiers = { spawnIntervalMultiplier: 1, speedMultiplier: 1, aggressiveness: 0 };
+  private creaturePositions: THREE.Vector3[] = [];
+  private playerPosition = new THREE.Vector3();
 
-  // Difficulty phases from spec - now adjustable
-  private difficultyPhases: DifficultyPhase[] = [
-    { startTime: 0, endTime: 20, spawnInterval: 1.2 },
-    { startTime: 20, endTime: 40, spawnInterval: 0.9 },
-    { startTime: 40, endTime: 60, spawnInterval: 0.7 }
-  ];
+  // Presentation option: draw incoming paths for angled and curved meteors
+  private showTrajectoryPaths = true;
 
   // Debug parameters
   private debugFrequencyMultiplier = 1.0;
@@ -32,67 +63,327 @@ export class MeteorSpawner {
 
   // MVP parameters
   private readonly maxSimultaneousMeteors = 8;
-  private readonly beginnerGracePeriod = 10; // First 10 seconds easier
-  // private readonly beginnerExplosionRadius = 1.2; // TODO: Implement beginner mode
 
-  update(deltaTime: number) {
+  // Difficulty explosion rules
+  private explosionRadiusMultiplier = 1;
+  private beginnerExplosion: BeginnerExplosionRule | null = null;
+
+  constructor(world: World, events: GameEventBus) {
+    this.world = world;
+    this.events = events;
+
+    this.events.on('punch_hit', ({ meteor }) => {
+      this.splitMeteor(meteor);
+      this.checkBossDefeat(meteor);
+    });
+    this.events.on('meteor_chain_hit', ({ meteor }) => this.splitMeteor(meteor));
+    this.enterPhase(0);
+
+    // The cap is the most standard meteors ever up at once
+    this.pool.prewarm(METEOR_KINDS.standard, this.maxSimultaneousMeteors);
+  }
+
+  // Living creature and player positions feed homing meteors and targeting strategies
+  update(deltaTime: number, creaturePositions: THREE.Vector3[] = [], playerPosition?: THREE.Vector3) {
+    this.creaturePositions = creaturePositions;
+    if (playerPosition) this.playerPosition.copy(playerPosition);
+    const wasBeginnerTime = this.isBeginnerTime();
     this.gameTime += deltaTime;
+    if (wasBeginnerTime && !this.isBeginnerTime()) {
+      // Grace is over: meteors still in the air get their full blast back
+      this.getMeteors().forEach(meteor => meteor.setExplosionRadius(this.getExplosionRadius(meteor.getKind())));
+    }
     this.spawnTimer += deltaTime;
+    this.advancePhase(deltaTime);
 
-    const currentPhase = this.getCurrentDifficultyPhase();
-    if (currentPhase) {
-      const requiredInterval = currentPhase.spawnInterval * this.debugFrequencyMultiplier;
+    const phase = this.getCurrentPhase();
+    while (this.scheduled.length > 0 && this.scheduled[0].at <= this.phaseTime) {
+      this.spawnScheduled(this.scheduled.shift()!, phase);
+    }
 
-      if (this.spawnTimer >= requiredInterval) {
-        this.trySpawnMeteor();
-        this.spawnTimer = 0;
-      }
+    if (this.boss) {
+      // The boss is the whole show: it sheds meteors instead of the phase spawning them
+      this.spawnTimer = 0;
+      this.updateBoss(deltaTime, this.boss);
+    } else if (this.spawnTimer >= this.getRequiredInterval()) {
+      this.trySpawnMeteor(phase);
+      this.spawnTimer = 0;
     }
 
-    this.updateMeteors(deltaTime);
-    this.cleanupMeteors();
+    this.updateMeteors(deltaTime, creaturePositions);
+  }
+
+  private updateBoss(deltaTime: number, boss: ActiveBoss) {
+    const rules = boss.meteor.getKind().boss!;
+    if (!boss.meteor.isFalling()) return;
+
+    boss.shedTimer += deltaTime;
+    if (boss.shedTimer >= rules.shedInterval) {
+      boss.shedTimer -= rules.shedInterval;
+      const origin = boss.meteor.getPosition();
+      origin.y -= boss.meteor.getKind().radius; // Drop them from underneath
+      const shed = this.scatterFrom(origin, boss.meteor.getTargetPosition(), METEOR_KINDS[rules.shedKind], rules.shedCount, rules.shedSpread);
+      this.events.emit({ type: 'boss_shed', meteor: boss.meteor, fragments: shed });
+    }
+  }
+
+  private spawnBoss(spec: WaveBoss) {
+    const kind = METEOR_KINDS.boss;
+    const maxPos = this.stageSize - this.stageMargin;
+    const target = new THREE.Vector3(
+      THREE.MathUtils.clamp(spec.x, -maxPos, maxPos),
+      0,
+      THREE.MathUtils.clamp(spec.z, -maxPos, maxPos)
+    );
+
+    const meteor = this.spawnMeteor(target, kind, {
+      trajectory: VERTICAL_TRAJECTORY,
+      spawnPosition: new THREE.Vector3(target.x, kind.boss!.spawnHeight, target.z)
+    });
+    this.boss = { meteor, onDefeat: spec.onDefeat, shedTimer: 0 };
+    this.events.emit({ type: 'boss_spawned', meteor, onDefeat: spec.onDefeat });
+  }
+
+  private checkBossDefeat(meteor: Meteor) {
+    if (!this.boss || this.boss.meteor !== meteor) return;
+
+    const { onDefeat } = this.boss;
+    this.boss = null;
+    if (onDefeat === 'end-phase') {
+      this.phaseTime = this.getCurrentPhase().duration; // Moves on next update
+    }
+    this.events.emit({ type: 'boss_defeated', meteor, onDefeat, position: meteor.getPosition() });
+  }
+
+  // Hit points and warning stage of the boss in the air, for the HUD
+  getBossStatus(): { hitPoints: number; maxHitPoints: number; stage: string } | null {
+    if (!this.boss) return null;
+    const meteor = this.boss.meteor;
+    return {
+      hitPoints: meteor.getHitPoints(),
+      maxHitPoints: meteor.getKind().hitPoints,
+      stage: meteor.getTelegraphStage()?.label ?? ''
+    };
+  }
+
+  setExplosionRules(radiusMultiplier: number, beginnerExplosion: BeginnerExplosionRule | null) {
+    this.explosionRadiusMultiplier = radiusMultiplier;
+    this.beginnerExplosion = beginnerExplosion;
+  }
+
+  private isBeginnerTime(): boolean {
+    return this.beginnerExplosion !== null && this.gameTime < this.beginnerExplosion.duration;
+  }
+
+  private getExplosionRadius(kind: MeteorKind): number {
+    if (kind.boss) return kind.explosionRadius; // Always stage-wide
+
+    const radius = kind.explosionRadius * this.explosionRadiusMultiplier;
+    return this.isBeginnerTime() ? Math.min(radius, this.beginnerExplosion!.radius) : radius;
+  }
+
+  setDirectorModifiers(modifiers: DirectorModifiers) {
+    this.director = { ...modifiers };
   }
 
-  private getCurrentDifficultyPhase(): DifficultyPhase | null {
-    for (const phase of this.difficultyPhases) {
-      if (this.gameTime >= phase.startTime && this.gameTime < phase.endTime) {
-        return phase;
+  // Swap pacing and restart from the first phase
+  setWaveScript(script: WaveScript) {
+    this.script = script;
+    this.reset();
+  }
+
+  getWaveScript(): WaveScript {
+    return this.script;
+  }
+
+  private advancePhase(deltaTime: number) {
+    this.phaseTime += deltaTime;
+
+    while (this.phaseTime >= this.getCurrentPhase().duration) {
+      const isLast = this.phaseIndex === this.script.phases.length - 1;
+      if (isLast && !this.script.loop) return; // Hold the final phase for the rest of the match
+
+      this.phaseTime -= this.getCurrentPhase().duration;
+      if (isLast) {
+        this.loopCount++;
+        this.enterPhase(this.script.loop!.fromPhase);
+      } else {
+        this.enterPhase(this.phaseIndex + 1);
       }
     }
-    return null; // Game time beyond all phases
   }
 
-  private trySpawnMeteor() {
-    if (this.meteors.length >= this.maxSimultaneousMeteors) {
+  private enterPhase(index: number) {
+    this.phaseIndex = index;
+    const phase = this.getCurrentPhase();
+
+    // Expand bursts into individual timed spawns alongside the drops
+    this.scheduled = [
+      ...phase.bursts.flatMap(burst =>
+        Array.from({ length: burst.count }, (_, i) => ({ at: burst.at + i * burst.spacing, kind: burst.kind }))
+      ),
+      ...phase.drops.map(drop => ({ at: drop.at, kind: drop.kind, position: new THREE.Vector3(drop.x, 0, drop.z) })),
+      ...(phase.boss ? [{ at: phase.boss.at, boss: phase.boss }] : [])
+    ].sort((a, b) => a.at - b.at);
+  }
+
+  private getCurrentPhase(): WavePhase {
+    return this.script.phases[this.phaseIndex];
+  }
+
+  // Escalation compounds per completed loop, clamped by the script's limits
+  private getSpawnInterval(): number {
+    const interval = this.getCurrentPhase().spawnInterval;
+    const escalation = this.script.loop?.escalation;
+    if (!escalation || this.loopCount === 0) return interval;
+
+    const escalated = interval * Math.pow(escalation.spawnIntervalMultiplier, this.loopCount);
+    return Math.max(Math.min(interval, escalation.minSpawnInterval), escalated);
+  }
+
+  private getRequiredInterval(): number {
+    return this.getSpawnInterval() * this.director.spawnIntervalMultiplier * this.debugFrequencyMultiplier;
+  }
+
+  private getSpeedMultiplier(): number {
+    const escalation = this.script.loop?.escalation;
+    if (!escalation || this.loopCount === 0) return this.director.speedMultiplier;
+
+    const escalated = Math.pow(escalation.speedMultiplier, this.loopCount);
+    return Math.min(Math.max(1, escalation.maxSpeedMultiplier), escalated) * this.director.speedMultiplier;
+  }
+
+  private spawnScheduled(spawn: ScheduledSpawn, phase: WavePhase) {
+    if (spawn.boss) {
+      if (!this.boss) this.spawnBoss(spawn.boss); // One boss at a time
+      return;
+    }
+
+    const kind = METEOR_KINDS[spawn.kind ?? this.rng.weighted(phase.kinds)];
+
+    if (spawn.position) {
+      // Scripted drops always happen, clamped onto the stage
+      const maxPos = this.stageSize - this.stageMargin;
+      const target = new THREE.Vector3(
+        THREE.MathUtils.clamp(spawn.position.x, -maxPos, maxPos),
+        0,
+        THREE.MathUtils.clamp(spawn.position.z, -maxPos, maxPos)
+      );
+      this.spawnMeteor(target, kind, { trajectory: VERTICAL_TRAJECTORY });
+      this.addRecentTarget(target);
+    } else {
+      this.trySpawnMeteor(phase, kind);
+    }
+  }
+
+  private trySpawnMeteor(phase: WavePhase, kind?: MeteorKind) {
+    if (this.getMeteors().length >= this.maxSimultaneousMeteors) {
       return; // Too many meteors already
     }
 
-    const target = this.generateValidTarget();
+    kind = kind ?? METEOR_KINDS[this.rng.weighted(phase.kinds)];
+    const target = this.generateValidTarget(TARGETING_STRATEGIES[phase.targeting]);
     if (target) {
-      const meteor = new Meteor(target);
+      this.spawnMeteor(target, kind, { trajectory: this.pickTrajectory(phase) });
+      this.addRecentTarget(target);
+    }
+  }
 
-      // Apply current debug speed to new meteors
-      meteor.setFallSpeed(this.debugMeteorSpeed);
+  private pickTrajectory(phase: WavePhase): TrajectorySpec {
+    const type = this.rng.weighted(phase.trajectories);
+    if (type === 'vertical') return VERTICAL_TRAJECTORY;
 
-      this.meteors.push(meteor);
-      this.addRecentTarget(target);
+    return {
+      type,
+      angle: this.rng.range(phase.entryAngle[0], phase.entryAngle[1]),
+      heading: this.rng.range(0, Math.PI * 2),
+      gravity: type === 'ballistic' ? BALLISTIC_GRAVITY : 0
+    };
+  }
+
+  private spawnMeteor(target: THREE.Vector3, kind: MeteorKind, launch: MeteorLaunch): Meteor {
+    const meteor = this.pool.acquire(target, kind, { ...launch, showPath: this.showTrajectoryPaths });
+
+    // Apply current debug speed to new meteors
+    meteor.setFallSpeed(this.debugMeteorSpeed * this.getSpeedMultiplier());
+    meteor.setExplosionRadius(this.getExplosionRadius(kind));
+
+    this.world.spawn(meteor);
+
+    this.events.emit({ type: 'meteor_spawned', meteor, target: target.clone() });
+    this.events.emit({
+      type: 'telegraph_started',
+      meteor,
+      position: meteor.getTargetPosition(),
+      duration: meteor.getTelegraphDuration()
+    });
+    return meteor;
+  }
+
+  // Punched splitting meteors burst into fragments that fall around the old target.
+  // Fragments ignore the simultaneous-meteor cap: they are the price of the punch.
+  private splitMeteor(meteor: Meteor) {
+    const split = meteor.getKind().split;
+    if (!split) return;
+
+    const fragments = this.scatterFrom(meteor.getPosition(), meteor.getTargetPosition(), METEOR_KINDS[split.kind], split.count, split.spread);
+    this.events.emit({ type: 'meteor_split', meteor, fragments });
+  }
+
+  // Launch meteors from a point in the air to land spread evenly around a center
+  private scatterFrom(origin: THREE.Vector3, center: THREE.Vector3, kind: MeteorKind, count: number, spread: number): Meteor[] {
+    const maxPos = this.stageSize - this.stageMargin;
+    const baseAngle = this.rng.range(0, Math.PI * 2);
+
+    const fragments: Meteor[] = [];
+    for (let i = 0; i < count; i++) {
+      const angle = baseAngle + (i / count) * Math.PI * 2;
+      const distance = spread * this.rng.range(0.5, 1);
+      const target = new THREE.Vector3(
+        THREE.MathUtils.clamp(center.x + Math.cos(angle) * distance, -maxPos, maxPos),
+        0,
+        THREE.MathUtils.clamp(center.z + Math.sin(angle) * distance, -maxPos, maxPos)
+      );
+      // Fragments arc out of the burst point
+      fragments.push(this.spawnMeteor(target, kind, {
+        spawnPosition: origin,
+        trajectory: { type: 'ballistic', angle: 0, heading: 0, gravity: BALLISTIC_GRAVITY }
+      }));
     }
+    return fragments;
   }
 
-  private generateValidTarget(): THREE.Vector3 | null {
+  private generateValidTarget(strategy: TargetingStrategy): THREE.Vector3 | null {
+    const context = this.getTargetingContext();
+
+    // Aggressive spawns drop near a creature whatever the phase asks for
+    if (this.creaturePositions.length > 0 && this.rng.chance(this.director.aggressiveness)) {
+      return TARGETING_STRATEGIES['creature-seeking'].pickTarget(context);
+    }
+
     const maxAttempts = 10;
     
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      const target = Meteor.generateRandomTarget(this.stageSize, this.stageMargin);
+      const target = strategy.pickTarget(context);
       
       if (Meteor.isValidTarget(target, this.recentTargets, this.minTargetDistance)) {
         return target;
       }
     }
     
-    // If we can't find a valid target after max attempts, return a random one
+    // If we can't find a valid target after max attempts, take the strategy's pick anyway
     // This ensures meteors keep spawning even in crowded situations
-    return Meteor.generateRandomTarget(this.stageSize, this.stageMargin);
+    return strategy.pickTarget(context);
+  }
+
+  private getTargetingContext(): TargetingContext {
+    return {
+      rng: this.rng,
+      stageSize: this.stageSize,
+      stageMargin: this.stageMargin,
+      creatures: this.creaturePositions,
+      player: this.playerPosition.clone()
+    };
   }
 
   private addRecentTarget(target: THREE.Vector3) {
@@ -103,56 +394,67 @@ export class MeteorSpawner {
     }
   }
 
-  private updateMeteors(deltaTime: number) {
-    this.meteors.forEach(meteor => meteor.update(deltaTime));
-  }
-
-  private cleanupMeteors() {
-    this.meteors = this.meteors.filter(meteor => {
-      const shouldKeep = meteor.update(0); // Just check state, don't update again
-      if (!shouldKeep) {
-        // Remove from scene when meteor is destroyed/exploded
-        const group = meteor.getGroup();
-        if (group.parent) {
-          group.parent.remove(group);
-        }
+  private updateMeteors(deltaTime: number, creaturePositions: THREE.Vector3[]) {
+    this.getMeteors().forEach(meteor => {
+      meteor.update(deltaTime, creaturePositions);
+      if (meteor.isDeflected() && this.isOffStage(meteor.getPosition())) {
+        // Knocked clean off: retire it with the other finished meteors
+        meteor.destroy();
+        const chain = meteor.getChain();
+        this.events.emit({ type: 'meteor_left_stage', meteor, position: meteor.getPosition(), chain: chain ? { ...chain } : null });
       }
-      return shouldKeep;
     });
   }
 
+  private isOffStage(position: THREE.Vector3): boolean {
+    return Math.abs(position.x) > this.stageSize || Math.abs(position.z) > this.stageSize;
+  }
+
+  // Call after collisions have seen this tick's explosions
+  removeFinishedMeteors() {
+    if (this.boss?.meteor.isFinished()) {
+      this.boss = null; // Landed: its blast has already gone off
+    }
+    this.getMeteors()
+      .filter(meteor => meteor.isFinished())
+      .forEach(meteor => this.recycle(meteor));
+  }
+
+  private recycle(meteor: Meteor) {
+    this.world.despawn(meteor, { keepResources: true });
+    this.pool.release(meteor);
+  }
+
   getMeteors(): Meteor[] {
-    return this.meteors;
+    return this.world.query(Meteor);
   }
 
   getTelegraphPositions(): THREE.Vector3[] {
-    return this.meteors
+    return this.getMeteors()
       .map(meteor => meteor.getTelegraphPosition())
       .filter(pos => pos !== null) as THREE.Vector3[];
   }
 
-  addMeteorsToScene(scene: THREE.Scene) {
-    this.meteors.forEach(meteor => {
-      const group = meteor.getGroup();
-      if (!group.parent) {
-        scene.add(group);
-      }
-    });
+  // Where every incoming meteor is predicted to land, telegraphing or already falling
+  getPredictedLandings(): THREE.Vector3[] {
+    return this.getMeteors()
+      .map(meteor => meteor.getPredictedLanding())
+      .filter(pos => pos !== null) as THREE.Vector3[];
   }
 
-  reset() {
-    // Clean up existing meteors
-    this.meteors.forEach(meteor => {
-      const group = meteor.getGroup();
-      if (group.parent) {
-        group.parent.remove(group);
-      }
-    });
+  setShowTrajectoryPaths(show: boolean) {
+    this.showTrajectoryPaths = show;
+  }
 
-    this.meteors = [];
+  reset() {
+    this.getMeteors().forEach(meteor => this.recycle(meteor));
+    this.boss = null;
     this.spawnTimer = 0;
     this.gameTime = 0;
     this.recentTargets = [];
+    this.phaseTime = 0;
+    this.loopCount = 0;
+    this.enterPhase(0);
   }
 
   getGameTime(): number {
@@ -160,21 +462,18 @@ export class MeteorSpawner {
   }
 
   getCurrentDifficulty(): string {
-    const phase = this.getCurrentDifficultyPhase();
-    if (!phase) return 'beyond-phases';
-    
-    if (this.gameTime < 20) return 'easy';
-    if (this.gameTime < 40) return 'normal';
-    return 'hard';
+    const name = this.getCurrentPhase().name;
+    return this.loopCount > 0 ? `${name} (loop ${this.loopCount})` : name;
   }
 
   // Debug/statistics methods
   getSpawnStats() {
     return {
-      totalMeteors: this.meteors.length,
+      pool: this.pool.getStats(),
+      totalMeteors: this.getMeteors().length,
       gameTime: this.gameTime,
       currentDifficulty: this.getCurrentDifficulty(),
-      nextSpawnIn: (this.getCurrentDifficultyPhase()?.spawnInterval || 0) - this.spawnTimer,
+      nextSpawnIn: this.getRequiredInterval() - this.spawnTimer,
       recentTargets: this.recentTargets.length
     };
   }
@@ -191,6 +490,6 @@ export class MeteorSpawner {
   setMeteorSpeed(speed: number) {
     this.debugMeteorSpeed = speed;
     // Apply speed to all existing meteors
-    this.meteors.forEach(meteor => meteor.setFallSpeed(speed));
+    this.getMeteors().forEach(meteor => meteor.setFallSpeed(speed * this.getSpeedMultiplier()));
   }
 }
\ No newline at end of file
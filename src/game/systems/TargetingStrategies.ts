@@ -0,0 +1,142 @@
+import * as THREE from 'three';
+import { RandomStream } from '../core/Random';
+import { Meteor } from '../entities/Meteor';
+
+// Where meteors are aimed.
+// The spawner asks the phase's strategy for candidate points and keeps the first
+// one far enough from recent targets, so strategies only decide intent.
+
+export type TargetingStrategyId = 'uniform' | 'creature-seeking' | 'player-avoiding' | 'cluster-punishing' | 'edge-biased';
+
+// Read-only view of the arena handed to strategies each time a meteor is aimed
+export interface TargetingContext {
+  rng: RandomStream;
+  stageSize: number;   // Half-width of the stage
+  stageMargin: number; // Targets stay this far inside the edge
+  creatures: readonly THREE.Vector3[]; // Living creatures only
+  player: THREE.Vector3;
+}
+
+export interface TargetingStrategy {
+  readonly id: TargetingStrategyId;
+  pickTarget(context: TargetingContext): THREE.Vector3;
+}
+
+function clampToStage(context: TargetingContext, x: number, z: number): THREE.Vector3 {
+  const maxPos = context.stageSize - context.stageMargin;
+  return new THREE.Vector3(
+    THREE.MathUtils.clamp(x, -maxPos, maxPos),
+    0,
+    THREE.MathUtils.clamp(z, -maxPos, maxPos)
+  );
+}
+
+function uniformTarget(context: TargetingContext): THREE.Vector3 {
+  return Meteor.generateRandomTarget(context.rng, context.stageSize, context.stageMargin);
+}
+
+export class UniformTargeting implements TargetingStrategy {
+  readonly id = 'uniform';
+
+  pickTarget(context: TargetingContext): THREE.Vector3 {
+    return uniformTarget(context);
+  }
+}
+
+// Drops close to a random creature so the player has to defend it
+export class CreatureSeekingTargeting implements TargetingStrategy {
+  readonly id = 'creature-seeking';
+  private readonly jitter = 0.6;
+
+  pickTarget(context: TargetingContext): THREE.Vector3 {
+    if (context.creatures.length === 0) return uniformTarget(context);
+
+    const creature = context.rng.pick(context.creatures);
+    return clampToStage(
+      context,
+      creature.x + context.rng.range(-1, 1) * this.jitter,
+      creature.z + context.rng.range(-1, 1) * this.jitter
+    );
+  }
+}
+
+// Lands away from the player so they have to travel to intercept
+export class PlayerAvoidingTargeting implements TargetingStrategy {
+  readonly id = 'player-avoiding';
+  private readonly minDistance = 2.5;
+  private readonly candidates = 6;
+
+  pickTarget(context: TargetingContext): THREE.Vector3 {
+    let farthest = uniformTarget(context);
+    let farthestDistance = this.groundDistance(farthest, context.player);
+
+    for (let i = 1; i < this.candidates && farthestDistance < this.minDistance; i++) {
+      const candidate = uniformTarget(context);
+      const distance = this.groundDistance(candidate, context.player);
+      if (distance > farthestDistance) {
+        farthest = candidate;
+        farthestDistance = distance;
+      }
+    }
+    return farthest;
+  }
+
+  private groundDistance(a: THREE.Vector3, b: THREE.Vector3): number {
+    return Math.hypot(a.x - b.x, a.z - b.z);
+  }
+}
+
+// Hits the middle of the biggest group of creatures, punishing bunching up
+export class ClusterPunishingTargeting implements TargetingStrategy {
+  readonly id = 'cluster-punishing';
+  private readonly clusterRadius = 2.0;
+
+  pickTarget(context: TargetingContext): THREE.Vector3 {
+    let bestCluster: THREE.Vector3[] = [];
+
+    for (const creature of context.creatures) {
+      const cluster = context.creatures.filter(other => other.distanceTo(creature) <= this.clusterRadius);
+      if (cluster.length > bestCluster.length) {
+        bestCluster = cluster;
+      }
+    }
+    if (bestCluster.length < 2) {
+      return uniformTarget(context); // Nobody is bunched up
+    }
+
+    const center = bestCluster.reduce((sum, p) => sum.add(p), new THREE.Vector3()).divideScalar(bestCluster.length);
+
+    // Anywhere within the cluster, so retries can still satisfy the spacing rule
+    const angle = context.rng.next() * Math.PI * 2;
+    const distance = Math.sqrt(context.rng.next()) * this.clusterRadius; // Uniform over the disc
+    return clampToStage(context, center.x + Math.cos(angle) * distance, center.z + Math.sin(angle) * distance);
+  }
+}
+
+// Favours the rim of the stage, where creatures corner themselves and the player risks falling
+export class EdgeBiasedTargeting implements TargetingStrategy {
+  readonly id = 'edge-biased';
+  private readonly bandWidth = 1.2;
+
+  pickTarget(context: TargetingContext): THREE.Vector3 {
+    const maxPos = context.stageSize - context.stageMargin;
+    const along = context.rng.range(-maxPos, maxPos);
+    const depth = maxPos - context.rng.range(0, this.bandWidth);
+    const side = context.rng.int(0, 4);
+
+    switch (side) {
+      case 0: return clampToStage(context, along, -depth);
+      case 1: return clampToStage(context, along, depth);
+      case 2: return clampToStage(context, -depth, along);
+      default: return clampToStage(context, depth, along);
+    }
+  }
+}
+
+export const TARGETING_STRATEGIES: Record<TargetingStrategyId, TargetingStrategy> = {
+  'uniform': new UniformTargeting(),
+  'creature-seeking': new CreatureSeekingTargeting(),
+  'player-avoiding': new PlayerAvoidingTargeting(),
+  'cluster-punishing': new ClusterPunishingTargeting(),
+  'edge-biased': new EdgeBiasedTargeting()
+};
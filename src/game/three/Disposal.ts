@@ -0,0 +1,20 @@
+import * as THREE from 'three';
+
+// Free the GPU-side buffers and programs behind an object and all its children.
+// Shared geometries/materials may be disposed more than once; Three.js tolerates that.
+export function disposeObject3D(object: THREE.Object3D) {
+  object.traverse(child => {
+    if (child instanceof THREE.Mesh || child instanceof THREE.Points || child instanceof THREE.Line) {
+      child.geometry.dispose();
+      disposeMaterial(child.material);
+    }
+  });
+}
+
+export function disposeMaterial(material: THREE.Material | THREE.Material[]) {
+  if (Array.isArray(material)) {
+    material.forEach(m => m.dispose());
+  } else {
+    material.dispose();
+  }
+}
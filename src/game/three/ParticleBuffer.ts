@@ -0,0 +1,122 @@
+import * as THREE from 'three';
+
+export interface ParticleSpawn {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  color: THREE.Color;
+  lifetime: number;
+}
+
+// Fixed-capacity point cloud: one geometry and material for every effect that
+// shares a look. Live particles stay packed at the front and the draw range
+// covers only them, so nothing is allocated after construction.
+export class ParticleBuffer {
+  readonly points: THREE.Points;
+  private readonly capacity: number;
+  private count = 0;
+
+  private positions: Float32Array;
+  private colors: Float32Array;
+  private velocities: Float32Array;
+  private ages: Float32Array;
+  private lifetimes: Float32Array;
+  private positionAttribute: THREE.BufferAttribute;
+  private colorAttribute: THREE.BufferAttribute;
+
+  constructor(capacity: number, size: number) {
+    this.capacity = capacity;
+    this.positions = new Float32Array(capacity * 3);
+    this.colors = new Float32Array(capacity * 4);
+    this.velocities = new Float32Array(capacity * 3);
+    this.ages = new Float32Array(capacity);
+    this.lifetimes = new Float32Array(capacity);
+
+    const geometry = new THREE.BufferGeometry();
+    this.positionAttribute = new THREE.BufferAttribute(this.positions, 3).setUsage(THREE.DynamicDrawUsage);
+    this.colorAttribute = new THREE.BufferAttribute(this.colors, 4).setUsage(THREE.DynamicDrawUsage);
+    geometry.setAttribute('position', this.positionAttribute);
+    geometry.setAttribute('color', this.colorAttribute);
+    geometry.setDrawRange(0, 0);
+
+    const material = new THREE.PointsMaterial({
+      size,
+      vertexColors: true,
+      transparent: true,
+      blending: THREE.AdditiveBlending
+    });
+
+    this.points = new THREE.Points(geometry, material);
+    this.points.frustumCulled = false; // Particles roam; the bounds would always be stale
+  }
+
+  emit(spawn: ParticleSpawn): boolean {
+    if (this.count >= this.capacity) return false;
+
+    const i = this.count++;
+    const i3 = i * 3;
+    const i4 = i * 4;
+    this.positions[i3] = spawn.position.x;
+    this.positions[i3 + 1] = spawn.position.y;
+    this.positions[i3 + 2] = spawn.position.z;
+    this.velocities[i3] = spawn.velocity.x;
+    this.velocities[i3 + 1] = spawn.velocity.y;
+    this.velocities[i3 + 2] = spawn.velocity.z;
+    this.colors[i4] = spawn.color.r;
+    this.colors[i4 + 1] = spawn.color.g;
+    this.colors[i4 + 2] = spawn.color.b;
+    this.colors[i4 + 3] = 1;
+    this.ages[i] = 0;
+    this.lifetimes[i] = spawn.lifetime;
+    return true;
+  }
+
+  update(deltaTime: number, gravity: number) {
+    let i = 0;
+    while (i < this.count) {
+      this.ages[i] += deltaTime;
+      if (this.ages[i] >= this.lifetimes[i]) {
+        this.removeAt(i); // The last particle moves into this slot; look at it next
+        continue;
+      }
+
+      const i3 = i * 3;
+      this.positions[i3] += this.velocities[i3] * deltaTime;
+      this.positions[i3 + 1] += this.velocities[i3 + 1] * deltaTime;
+      this.positions[i3 + 2] += this.velocities[i3 + 2] * deltaTime;
+      this.velocities[i3 + 1] += gravity * deltaTime;
+
+      // Fade out over each particle's life
+      this.colors[i * 4 + 3] = 1 - this.ages[i] / this.lifetimes[i];
+      i++;
+    }
+
+    this.points.geometry.setDrawRange(0, this.count);
+    this.positionAttribute.needsUpdate = true;
+    this.colorAttribute.needsUpdate = true;
+  }
+
+  private removeAt(index: number) {
+    const last = --this.count;
+    if (index === last) return;
+
+    this.positions.copyWithin(index * 3, last * 3, last * 3 + 3);
+    this.velocities.copyWithin(index * 3, last * 3, last * 3 + 3);
+    this.colors.copyWithin(index * 4, last * 4, last * 4 + 4);
+    this.ages[index] = this.ages[last];
+    this.lifetimes[index] = this.lifetimes[last];
+  }
+
+  getCount(): number {
+    return this.count;
+  }
+
+  clear() {
+    this.count = 0;
+    this.points.geometry.setDrawRange(0, 0);
+  }
+
+  dispose() {
+    this.points.geometry.dispose();
+    (this.points.material as THREE.Material).dispose();
+  }
+}
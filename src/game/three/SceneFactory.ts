@@ -1,18 +1,54 @@
 import * as THREE from 'three';
+import { Heightfield } from '../core/Heightfield';
+import { TerrainMesh } from './TerrainMesh';
 
-// Terrain height calculation - must match createTerrain() algorithm
-// Note: PlaneGeometry is rotated -90° around X axis, so plane's Y = -worldZ
+// Ground height for gameplay, read from the match's heightfield so it always
+// matches the terrain mesh, craters included
 export function getTerrainHeight(x: number, z: number): number {
-  const planeY = -z; // Convert world Z to plane Y coordinate
-  const height =
-    Math.sin(x * 0.8) * Math.cos(planeY * 0.8) * 0.3 +
-    Math.sin(x * 1.5 + 1) * Math.sin(planeY * 1.2 + 0.5) * 0.2 +
-    Math.cos(x * 0.5 - planeY * 0.7) * 0.15;
-  return height;
+  return Heightfield.instance.getHeight(x, z);
+}
+
+// Solid walls around three sides of the diorama; the front stays open.
+// Gameplay collides with these boxes and the scene draws them, so they can't drift apart.
+export interface StageWall {
+  name: 'back' | 'left' | 'right';
+  box: THREE.Box3;
+  normal: THREE.Vector3; // Points into the stage
+}
+
+function stageWall(name: StageWall['name'], center: THREE.Vector3, size: THREE.Vector3, normal: THREE.Vector3): StageWall {
+  return { name, box: new THREE.Box3().setFromCenterAndSize(center, size), normal };
+}
+
+export const STAGE_WALLS: readonly StageWall[] = [
+  stageWall('back', new THREE.Vector3(0, 2.5, -5.25), new THREE.Vector3(10, 6, 0.5), new THREE.Vector3(0, 0, 1)),
+  stageWall('left', new THREE.Vector3(-5.25, 2.5, 0), new THREE.Vector3(0.5, 6, 10), new THREE.Vector3(1, 0, 0)),
+  stageWall('right', new THREE.Vector3(5.25, 2.5, 0), new THREE.Vector3(0.5, 6, 10), new THREE.Vector3(-1, 0, 0))
+];
+
+export interface WallContact {
+  wall: StageWall;
+  penetration: number; // How far the sphere overlaps the wall; negative while only within the skin
+}
+
+// The wall a sphere touches most deeply, counting anything within `skin` of its surface as touching
+export function findWallContact(center: THREE.Vector3, radius: number, skin = 0): WallContact | null {
+  let contact: WallContact | null = null;
+  const closest = new THREE.Vector3();
+
+  for (const wall of STAGE_WALLS) {
+    const distance = center.distanceTo(wall.box.clampPoint(center, closest));
+    const penetration = radius - distance;
+    if (penetration < -skin) continue;
+    if (!contact || penetration > contact.penetration) {
+      contact = { wall, penetration };
+    }
+  }
+  return contact;
 }
 
 export class SceneFactory {
-  static createGameScene(): THREE.Scene {
+  static createGameScene(terrain: TerrainMesh): THREE.Scene {
     const scene = new THREE.Scene();
     scene.fog = new THREE.Fog(0x1a1a2e, 10, 50);
 
@@ -35,18 +71,17 @@ export class SceneFactory {
     scene.add(directionalLight);
 
     // Create stage (diorama cube)
-    const stage = this.createStage();
+    const stage = this.createStage(terrain);
     scene.add(stage);
 
     return scene;
   }
 
-  private static createStage(): THREE.Group {
+  private static createStage(terrain: TerrainMesh): THREE.Group {
     const stageGroup = new THREE.Group();
 
-    // Create undulating terrain
-    const terrain = this.createTerrain();
-    stageGroup.add(terrain);
+    // Undulating terrain, drawn from the heightfield
+    stageGroup.add(terrain.mesh);
 
     // Stage base (underneath the terrain)
     const baseGeometry = new THREE.BoxGeometry(10, 1, 10);
@@ -56,65 +91,16 @@ export class SceneFactory {
     base.receiveShadow = true;
     stageGroup.add(base);
 
-    // Stage walls
+    // Stage walls (back, left, right), built from the same boxes gameplay collides with
     const wallMaterial = new THREE.MeshLambertMaterial({ color: 0x2d3748 });
-
-    // Back wall
-    const backWallGeometry = new THREE.BoxGeometry(10, 6, 0.5);
-    const backWall = new THREE.Mesh(backWallGeometry, wallMaterial);
-    backWall.position.set(0, 2.5, -5.25);
-    backWall.receiveShadow = true;
-    stageGroup.add(backWall);
-
-    // Left wall
-    const leftWallGeometry = new THREE.BoxGeometry(0.5, 6, 10);
-    const leftWall = new THREE.Mesh(leftWallGeometry, wallMaterial);
-    leftWall.position.set(-5.25, 2.5, 0);
-    leftWall.receiveShadow = true;
-    stageGroup.add(leftWall);
-
-    // Right wall
-    const rightWall = new THREE.Mesh(leftWallGeometry, wallMaterial);
-    rightWall.position.set(5.25, 2.5, 0);
-    rightWall.receiveShadow = true;
-    stageGroup.add(rightWall);
-
-    return stageGroup;
-  }
-
-  private static createTerrain(): THREE.Mesh {
-    const segments = 32;
-    const size = 10;
-    const geometry = new THREE.PlaneGeometry(size, size, segments, segments);
-
-    // Displace vertices to create undulating terrain
-    const positions = geometry.attributes.position;
-    for (let i = 0; i < positions.count; i++) {
-      const x = positions.getX(i);
-      const y = positions.getY(i);
-
-      // Simple noise function for organic hills
-      const height =
-        Math.sin(x * 0.8) * Math.cos(y * 0.8) * 0.3 +
-        Math.sin(x * 1.5 + 1) * Math.sin(y * 1.2 + 0.5) * 0.2 +
-        Math.cos(x * 0.5 - y * 0.7) * 0.15;
-
-      positions.setZ(i, height);
-    }
-
-    geometry.computeVertexNormals();
-
-    // Gradient material - green grass
-    const material = new THREE.MeshLambertMaterial({
-      color: 0x5a8f5a,
-      flatShading: false
+    STAGE_WALLS.forEach(wall => {
+      const size = wall.box.getSize(new THREE.Vector3());
+      const mesh = new THREE.Mesh(new THREE.BoxGeometry(size.x, size.y, size.z), wallMaterial);
+      wall.box.getCenter(mesh.position);
+      mesh.receiveShadow = true;
+      stageGroup.add(mesh);
     });
 
-    const terrain = new THREE.Mesh(geometry, material);
-    terrain.rotation.x = -Math.PI / 2; // Rotate to horizontal
-    terrain.position.y = 0;
-    terrain.receiveShadow = true;
-
-    return terrain;
+    return stageGroup;
   }
 }
\ No newline at end of file
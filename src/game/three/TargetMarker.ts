@@ -0,0 +1,44 @@
+import * as THREE from 'three';
+import { Meteor } from '../entities/Meteor';
+
+// Pulsing ring around the meteor auto-aim is steering punches toward.
+// Always faces the camera and draws on top so the meteor can't hide it.
+export class TargetMarker {
+  readonly mesh: THREE.Mesh;
+  private time = 0;
+
+  constructor() {
+    const geometry = new THREE.RingGeometry(1.1, 1.3, 32); // Scaled by the target's radius
+    const material = new THREE.MeshBasicMaterial({
+      color: 0xffe066,
+      transparent: true,
+      opacity: 0.85,
+      side: THREE.DoubleSide,
+      depthTest: false
+    });
+
+    this.mesh = new THREE.Mesh(geometry, material);
+    this.mesh.renderOrder = 10;
+    this.mesh.visible = false;
+  }
+
+  update(target: Meteor | null, camera: THREE.Camera, deltaTime: number) {
+    if (!target || !target.canBeDestroyed()) {
+      this.mesh.visible = false;
+      return;
+    }
+
+    this.time += deltaTime;
+    const pulse = 1 + Math.sin(this.time * 10) * 0.1;
+
+    this.mesh.visible = true;
+    this.mesh.position.copy(target.getGroup().position); // Interpolated, so it tracks smoothly
+    this.mesh.quaternion.copy(camera.quaternion);
+    this.mesh.scale.setScalar(target.getKind().radius * pulse);
+  }
+
+  dispose() {
+    this.mesh.geometry.dispose();
+    (this.mesh.material as THREE.Material).dispose();
+  }
+}
@@ -0,0 +1,53 @@
+import * as THREE from 'three';
+import { Heightfield } from '../core/Heightfield';
+
+// Draws the heightfield. Vertices map one-to-one onto its samples, and the
+// geometry is rewritten in place whenever the heightfield changes.
+export class TerrainMesh {
+  readonly mesh: THREE.Mesh;
+  private heightfield: Heightfield;
+  private syncedVersion = -1;
+
+  constructor(heightfield: Heightfield) {
+    this.heightfield = heightfield;
+
+    const geometry = new THREE.PlaneGeometry(heightfield.size, heightfield.size, heightfield.segments, heightfield.segments);
+    (geometry.attributes.position as THREE.BufferAttribute).setUsage(THREE.DynamicDrawUsage);
+
+    // Gradient material - green grass
+    const material = new THREE.MeshLambertMaterial({
+      color: 0x5a8f5a,
+      flatShading: false
+    });
+
+    this.mesh = new THREE.Mesh(geometry, material);
+    this.mesh.rotation.x = -Math.PI / 2; // Rotate to horizontal
+    this.mesh.position.y = 0;
+    this.mesh.receiveShadow = true;
+
+    this.update();
+  }
+
+  // Cheap to call every frame: does nothing unless the ground changed
+  update() {
+    const version = this.heightfield.getVersion();
+    if (version === this.syncedVersion) return;
+    this.syncedVersion = version;
+
+    // Plane vertex (ix, iy) sits at world (x, z) = grid corner (ix, iy), height along local Z
+    const positions = this.mesh.geometry.attributes.position as THREE.BufferAttribute;
+    const row = this.heightfield.segments + 1;
+    for (let i = 0; i < positions.count; i++) {
+      positions.setZ(i, this.heightfield.getSample(i % row, Math.floor(i / row)));
+    }
+    positions.needsUpdate = true;
+
+    this.mesh.geometry.computeVertexNormals();
+    this.mesh.geometry.computeBoundingSphere();
+  }
+
+  dispose() {
+    this.mesh.geometry.dispose();
+    (this.mesh.material as THREE.Material).dispose();
+  }
+}
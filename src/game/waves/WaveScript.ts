@@ -0,0 +1,341 @@
+import { MeteorKindId, METEOR_KINDS } from '../entities/MeteorKinds';
+import { TrajectoryType } from '../entities/MeteorTrajectory';
+import { TargetingStrategyId, TARGETING_STRATEGIES } from '../systems/TargetingStrategies';
+import defaultWaves from './default.json';
+
+// Wave scripts: JSON pacing data for MeteorSpawner.
+// Phases run back to back; each spawns meteors on an interval, plus optional
+// bursts and hand-placed drops timed from the start of the phase. After the
+// last phase the script either loops (getting harder each time) or holds the
+// last phase for as long as the match lasts. A phase may also send one boss,
+// whose defeat ends either that phase or the whole match.
+
+export interface WaveBurst {
+  at: number;        // Seconds into the phase
+  count: number;
+  spacing: number;   // Seconds between meteors in the burst
+  kind?: MeteorKindId; // Omitted: drawn from the phase weights
+}
+
+export interface WaveDrop {
+  at: number;
+  x: number;
+  z: number;
+  kind: MeteorKindId;
+}
+
+export type BossDefeatOutcome = 'end-phase' | 'end-match';
+
+export interface WaveBoss {
+  at: number;
+  x: number;
+  z: number;
+  onDefeat: BossDefeatOutcome;
+}
+
+export interface WavePhase {
+  name: string;
+  duration: number;
+  spawnInterval: number;
+  kinds: Partial<Record<MeteorKindId, number>>;
+  trajectories: Partial<Record<TrajectoryType, number>>;
+  entryAngle: [number, number]; // Degrees from vertical for angled and ballistic entries
+  targeting: TargetingStrategyId;
+  bursts: WaveBurst[];
+  drops: WaveDrop[];
+  boss?: WaveBoss;
+}
+
+export interface WaveEscalation {
+  spawnIntervalMultiplier: number; // Compounded once per completed loop
+  speedMultiplier: number;
+  minSpawnInterval: number;
+  maxSpeedMultiplier: number;
+}
+
+export interface WaveLoop {
+  fromPhase: number; // Index of the phase to jump back to
+  escalation: WaveEscalation;
+}
+
+export interface WaveScript {
+  name: string;
+  phases: WavePhase[];
+  loop?: WaveLoop;
+}
+
+export class WaveScriptError extends Error {
+  readonly problems: string[];
+
+  constructor(scriptName: string, problems: string[]) {
+    super(`Wave script "${scriptName}" is invalid:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+    this.name = 'WaveScriptError';
+    this.problems = problems;
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+// Bosses only arrive through a phase's boss entry
+const KIND_IDS = (Object.keys(METEOR_KINDS) as MeteorKindId[]).filter(id => !METEOR_KINDS[id].boss);
+const BOSS_OUTCOMES: BossDefeatOutcome[] = ['end-phase', 'end-match'];
+const TRAJECTORY_TYPES: TrajectoryType[] = ['vertical', 'angled', 'ballistic'];
+const MAX_ENTRY_ANGLE = 75;
+const TARGETING_IDS = Object.keys(TARGETING_STRATEGIES) as TargetingStrategyId[];
+
+// Collects every problem in one pass so designers can fix a script in one go
+class Validator {
+  readonly problems: string[] = [];
+
+  report(path: string, message: string) {
+    this.problems.push(`${path}: ${message}`);
+  }
+
+  object(value: unknown, path: string, allowedKeys: string[]): JsonObject | null {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.report(path, 'must be an object');
+      return null;
+    }
+    for (const key of Object.keys(value)) {
+      if (!allowedKeys.includes(key)) {
+        this.report(`${path}.${key}`, `unknown field (expected one of ${allowedKeys.join(', ')})`);
+      }
+    }
+    return value as JsonObject;
+  }
+
+  array(value: unknown, path: string): unknown[] {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+      this.report(path, 'must be an array');
+      return [];
+    }
+    return value;
+  }
+
+  number(value: unknown, path: string, options: { min?: number; above?: number; max?: number; below?: number; integer?: boolean; fallback?: number } = {}): number {
+    if (value === undefined && options.fallback !== undefined) return options.fallback;
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.report(path, value === undefined ? 'is required' : `must be a number, got ${JSON.stringify(value)}`);
+      return options.fallback ?? 0;
+    }
+    if (options.integer && !Number.isInteger(value)) this.report(path, `must be a whole number, got ${value}`);
+    if (options.min !== undefined && value < options.min) this.report(path, `must be at least ${options.min}, got ${value}`);
+    if (options.above !== undefined && value <= options.above) this.report(path, `must be greater than ${options.above}, got ${value}`);
+    if (options.max !== undefined && value > options.max) this.report(path, `must be at most ${options.max}, got ${value}`);
+    if (options.below !== undefined && value >= options.below) this.report(path, `must be less than ${options.below}, got ${value}`);
+    return value;
+  }
+
+  string(value: unknown, path: string, fallback: string): string {
+    if (value === undefined) return fallback;
+    if (typeof value !== 'string' || value.trim() === '') {
+      this.report(path, 'must be a non-empty string');
+      return fallback;
+    }
+    return value;
+  }
+
+  targeting(value: unknown, path: string): TargetingStrategyId {
+    if (value === undefined) return 'uniform';
+    if (typeof value !== 'string' || !TARGETING_IDS.includes(value as TargetingStrategyId)) {
+      this.report(path, `unknown targeting strategy ${JSON.stringify(value)} (expected one of ${TARGETING_IDS.join(', ')})`);
+      return 'uniform';
+    }
+    return value as TargetingStrategyId;
+  }
+
+  bossOutcome(value: unknown, path: string): BossDefeatOutcome {
+    if (value === undefined) return 'end-phase';
+    if (typeof value !== 'string' || !BOSS_OUTCOMES.includes(value as BossDefeatOutcome)) {
+      this.report(path, `unknown boss outcome ${JSON.stringify(value)} (expected one of ${BOSS_OUTCOMES.join(', ')})`);
+      return 'end-phase';
+    }
+    return value as BossDefeatOutcome;
+  }
+
+  kind(value: unknown, path: string): MeteorKindId {
+    if (typeof value !== 'string' || !KIND_IDS.includes(value as MeteorKindId)) {
+      this.report(path, `unknown meteor kind ${JSON.stringify(value)} (expected one of ${KIND_IDS.join(', ')})`);
+      return 'standard';
+    }
+    return value as MeteorKindId;
+  }
+}
+
+export function parseWaveScript(data: unknown): WaveScript {
+  const v = new Validator();
+  const root = v.object(data, 'script', ['name', 'phases', 'loop']);
+  if (!root) throw new WaveScriptError('unnamed', v.problems);
+
+  const name = v.string(root.name, 'name', 'unnamed');
+
+  if (root.phases === undefined) {
+    v.report('phases', 'is required');
+  } else if (Array.isArray(root.phases) && root.phases.length === 0) {
+    v.report('phases', 'must contain at least one phase');
+  }
+  const rawPhases = v.array(root.phases, 'phases');
+  const phases = rawPhases.map((phase, index) => parsePhase(v, phase, `phases[${index}]`));
+
+  let loop: WaveLoop | undefined;
+  if (root.loop !== undefined) {
+    loop = parseLoop(v, root.loop, phases.length);
+  }
+
+  if (v.problems.length > 0) {
+    throw new WaveScriptError(name, v.problems);
+  }
+  return { name, phases, loop };
+}
+
+// For scripts pasted or loaded as text
+export function parseWaveScriptText(text: string): WaveScript {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new WaveScriptError('unnamed', [`not valid JSON (${(error as Error).message})`]);
+  }
+  return parseWaveScript(data);
+}
+
+function parsePhase(v: Validator, data: unknown, path: string): WavePhase {
+  const raw = v.object(data, path, ['name', 'duration', 'spawnInterval', 'kinds', 'trajectories', 'entryAngle', 'targeting', 'bursts', 'drops', 'boss']);
+  if (!raw) {
+    return {
+      name: path, duration: 1, spawnInterval: 1, kinds: { standard: 1 },
+      trajectories: { vertical: 1 }, entryAngle: [0, 0], targeting: 'uniform', bursts: [], drops: []
+    };
+  }
+
+  const duration = v.number(raw.duration, `${path}.duration`, { above: 0 });
+
+  const kinds: Partial<Record<MeteorKindId, number>> = {};
+  const rawKinds = raw.kinds === undefined ? { standard: 1 } : v.object(raw.kinds, `${path}.kinds`, KIND_IDS);
+  if (rawKinds) {
+    for (const [kind, weight] of Object.entries(rawKinds)) {
+      if (!KIND_IDS.includes(kind as MeteorKindId)) continue; // Already reported
+      kinds[kind as MeteorKindId] = v.number(weight, `${path}.kinds.${kind}`, { min: 0 });
+    }
+    if (!Object.values(kinds).some(weight => weight! > 0)) {
+      v.report(`${path}.kinds`, 'needs at least one kind with a weight above 0');
+    }
+  }
+
+  const trajectories: Partial<Record<TrajectoryType, number>> = {};
+  const rawTrajectories = raw.trajectories === undefined
+    ? { vertical: 1 }
+    : v.object(raw.trajectories, `${path}.trajectories`, TRAJECTORY_TYPES);
+  if (rawTrajectories) {
+    for (const [type, weight] of Object.entries(rawTrajectories)) {
+      if (!TRAJECTORY_TYPES.includes(type as TrajectoryType)) continue; // Already reported
+      trajectories[type as TrajectoryType] = v.number(weight, `${path}.trajectories.${type}`, { min: 0 });
+    }
+    if (!Object.values(trajectories).some(weight => weight! > 0)) {
+      v.report(`${path}.trajectories`, 'needs at least one trajectory with a weight above 0');
+    }
+  }
+
+  let entryAngle: [number, number] = [20, 45];
+  if (raw.entryAngle !== undefined) {
+    const angles = v.array(raw.entryAngle, `${path}.entryAngle`);
+    if (angles.length !== 2) {
+      v.report(`${path}.entryAngle`, 'must be [min, max] in degrees');
+    } else {
+      entryAngle = [
+        v.number(angles[0], `${path}.entryAngle[0]`, { min: 0, max: MAX_ENTRY_ANGLE }),
+        v.number(angles[1], `${path}.entryAngle[1]`, { min: 0, max: MAX_ENTRY_ANGLE })
+      ];
+      if (entryAngle[0] > entryAngle[1]) {
+        v.report(`${path}.entryAngle`, `min ${entryAngle[0]} is greater than max ${entryAngle[1]}`);
+      }
+    }
+  }
+
+  const bursts = v.array(raw.bursts, `${path}.bursts`).map((burst, index) => {
+    const burstPath = `${path}.bursts[${index}]`;
+    const b = v.object(burst, burstPath, ['at', 'count', 'spacing', 'kind']);
+    if (!b) return { at: 0, count: 0, spacing: 0 };
+    const parsed = {
+      at: v.number(b.at, `${burstPath}.at`, { min: 0, below: duration > 0 ? duration : undefined }),
+      count: v.number(b.count, `${burstPath}.count`, { min: 1, integer: true }),
+      spacing: v.number(b.spacing, `${burstPath}.spacing`, { min: 0, fallback: 0.2 }),
+      kind: b.kind === undefined ? undefined : v.kind(b.kind, `${burstPath}.kind`)
+    };
+
+    // The spawner drops any meteor of the burst still scheduled when the phase ends
+    const last = parsed.at + (parsed.count - 1) * parsed.spacing;
+    if (duration > 0 && parsed.count >= 1 && last >= duration) {
+      v.report(burstPath, `last meteor at ${last.toFixed(2)}s falls outside the phase (duration ${duration}s)`);
+    }
+    return parsed;
+  });
+
+  const drops = v.array(raw.drops, `${path}.drops`).map((drop, index) => {
+    const dropPath = `${path}.drops[${index}]`;
+    const d = v.object(drop, dropPath, ['at', 'x', 'z', 'kind']);
+    if (!d) return { at: 0, x: 0, z: 0, kind: 'standard' as MeteorKindId };
+    return {
+      at: v.number(d.at, `${dropPath}.at`, { min: 0, below: duration > 0 ? duration : undefined }),
+      x: v.number(d.x, `${dropPath}.x`),
+      z: v.number(d.z, `${dropPath}.z`),
+      kind: d.kind === undefined ? 'standard' : v.kind(d.kind, `${dropPath}.kind`)
+    };
+  });
+
+  let boss: WaveBoss | undefined;
+  if (raw.boss !== undefined) {
+    const bossPath = `${path}.boss`;
+    const b = v.object(raw.boss, bossPath, ['at', 'x', 'z', 'onDefeat']);
+    if (b) {
+      boss = {
+        at: v.number(b.at, `${bossPath}.at`, { min: 0, below: duration > 0 ? duration : undefined }),
+        x: v.number(b.x, `${bossPath}.x`, { fallback: 0 }),
+        z: v.number(b.z, `${bossPath}.z`, { fallback: 0 }),
+        onDefeat: v.bossOutcome(b.onDefeat, `${bossPath}.onDefeat`)
+      };
+    }
+  }
+
+  return {
+    name: v.string(raw.name, `${path}.name`, path),
+    duration,
+    spawnInterval: v.number(raw.spawnInterval, `${path}.spawnInterval`, { above: 0 }),
+    kinds,
+    trajectories,
+    entryAngle,
+    targeting: v.targeting(raw.targeting, `${path}.targeting`),
+    bursts,
+    drops,
+    boss
+  };
+}
+
+function parseLoop(v: Validator, data: unknown, phaseCount: number): WaveLoop | undefined {
+  const raw = v.object(data, 'loop', ['fromPhase', 'escalation']);
+  if (!raw) return undefined;
+
+  const fromPhase = v.number(raw.fromPhase, 'loop.fromPhase', { min: 0, integer: true, fallback: 0 });
+  if (phaseCount > 0 && fromPhase >= phaseCount) {
+    v.report('loop.fromPhase', `must point at an existing phase (0 to ${phaseCount - 1}), got ${fromPhase}`);
+  }
+
+  const rawEscalation = raw.escalation === undefined
+    ? {}
+    : v.object(raw.escalation, 'loop.escalation', ['spawnIntervalMultiplier', 'speedMultiplier', 'minSpawnInterval', 'maxSpeedMultiplier']) ?? {};
+
+  return {
+    fromPhase,
+    escalation: {
+      spawnIntervalMultiplier: v.number(rawEscalation.spawnIntervalMultiplier, 'loop.escalation.spawnIntervalMultiplier', { above: 0, fallback: 1 }),
+      speedMultiplier: v.number(rawEscalation.speedMultiplier, 'loop.escalation.speedMultiplier', { above: 0, fallback: 1 }),
+      minSpawnInterval: v.number(rawEscalation.minSpawnInterval, 'loop.escalation.minSpawnInterval', { above: 0, fallback: 0.3 }),
+      maxSpeedMultiplier: v.number(rawEscalation.maxSpeedMultiplier, 'loop.escalation.maxSpeedMultiplier', { above: 0, fallback: 2 })
+    }
+  };
+}
+
+// Validated at import so a broken default script fails loudly on startup
+export const DEFAULT_WAVE_SCRIPT: WaveScript = parseWaveScript(defaultWaves);
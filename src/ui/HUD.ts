@@ -2,6 +2,10 @@ export class HUD {
   private hudElement!: HTMLElement;
   private timeDisplay!: HTMLElement;
   private creatureDisplay!: HTMLElement;
+  private fallDisplay!: HTMLElement;
+  private bossPanel!: HTMLElement;
+  private bossFill!: HTMLElement;
+  private bossStage!: HTMLElement;
   private debugPanel!: HTMLElement;
   private speedSlider!: HTMLInputElement;
   private speedValue!: HTMLElement;
@@ -9,10 +13,12 @@ export class HUD {
   private meteorSpeedValue!: HTMLElement;
   private meteorFreqSlider!: HTMLInputElement;
   private meteorFreqValue!: HTMLElement;
+  private aimAssistValue!: HTMLElement;
   
   private onSpeedChange?: (speed: number) => void;
   private onMeteorSpeedChange?: (speed: number) => void;
   private onMeteorFreqChange?: (freq: number) => void;
+  private onAimAssistChange?: (strength: number) => void;
   
   constructor() {
     this.createHUD();
@@ -59,11 +65,29 @@ export class HUD {
     `;
     this.creatureDisplay.textContent = '3/3';
 
+    // Fall count (under the timer)
+    this.fallDisplay = document.createElement('div');
+    this.fallDisplay.style.cssText = `
+      position: absolute;
+      top: 70px;
+      left: 20px;
+      background: rgba(0, 0, 0, 0.5);
+      padding: 6px 15px;
+      border-radius: 5px;
+      font-size: 14px;
+    `;
+    this.fallDisplay.textContent = 'Falls: 0';
+
+    // Boss hit points (top center, only while a boss is up)
+    this.createBossPanel();
+
     // Debug panel (bottom left)
     this.createDebugPanel();
 
     this.hudElement.appendChild(this.timeDisplay);
     this.hudElement.appendChild(this.creatureDisplay);
+    this.hudElement.appendChild(this.fallDisplay);
+    this.hudElement.appendChild(this.bossPanel);
     this.hudElement.appendChild(this.debugPanel);
 
     document.body.appendChild(this.hudElement);
@@ -93,6 +117,72 @@ export class HUD {
     }
   }
 
+  // Limit is null when falling can't lose the match
+  updateFalls(falls: number, limit: number | null) {
+    this.fallDisplay.textContent = limit === null ? `Falls: ${falls}` : `Falls: ${falls}/${limit}`;
+
+    // Warning color one fall away from losing
+    if (limit !== null && falls >= limit - 1) {
+      this.fallDisplay.style.color = '#ff4444';
+    } else {
+      this.fallDisplay.style.color = 'white';
+    }
+  }
+
+  private createBossPanel() {
+    this.bossPanel = document.createElement('div');
+    this.bossPanel.style.cssText = `
+      position: absolute;
+      top: 20px;
+      left: 50%;
+      transform: translateX(-50%);
+      width: 320px;
+      background: rgba(0, 0, 0, 0.5);
+      padding: 8px 12px;
+      border-radius: 5px;
+      text-align: center;
+      display: none;
+    `;
+
+    this.bossStage = document.createElement('div');
+    this.bossStage.style.cssText = `
+      font-size: 14px;
+      margin-bottom: 6px;
+    `;
+
+    const bar = document.createElement('div');
+    bar.style.cssText = `
+      height: 12px;
+      background: #333;
+      border-radius: 6px;
+      overflow: hidden;
+    `;
+
+    this.bossFill = document.createElement('div');
+    this.bossFill.style.cssText = `
+      height: 100%;
+      width: 100%;
+      background: #ff4444;
+      transition: width 0.15s;
+    `;
+
+    bar.appendChild(this.bossFill);
+    this.bossPanel.appendChild(this.bossStage);
+    this.bossPanel.appendChild(bar);
+  }
+
+  // Pass null once the boss is gone to hide the bar
+  updateBoss(status: { hitPoints: number; maxHitPoints: number; stage: string } | null) {
+    if (!status) {
+      this.bossPanel.style.display = 'none';
+      return;
+    }
+
+    this.bossPanel.style.display = 'block';
+    this.bossStage.textContent = `BOSS METEOR - ${status.stage}`;
+    this.bossFill.style.width = `${(Math.max(0, status.hitPoints) / status.maxHitPoints) * 100}%`;
+  }
+
   show() {
     this.hudElement.style.display = 'block';
   }
@@ -209,10 +299,26 @@ export class HUD {
     this.meteorFreqSlider = meteorFreqContainer.slider;
     this.meteorFreqValue = meteorFreqContainer.valueDisplay;
 
+    // Auto-aim assist strength (starts at the device default until moved)
+    const aimAssistContainer = this.createSliderControl(
+      'Aim Assist:',
+      '0', '1', '0.6', '0.05',
+      (value) => {
+        const numValue = parseFloat(value);
+        this.aimAssistValue.textContent = numValue.toFixed(2);
+        if (this.onAimAssistChange) {
+          this.onAimAssistChange(numValue);
+        }
+      }
+    );
+    this.aimAssistValue = aimAssistContainer.valueDisplay;
+    this.aimAssistValue.textContent = 'auto';
+
     this.debugPanel.appendChild(title);
     this.debugPanel.appendChild(speedContainer);
     this.debugPanel.appendChild(meteorSpeedContainer.container);
     this.debugPanel.appendChild(meteorFreqContainer.container);
+    this.debugPanel.appendChild(aimAssistContainer.container);
   }
 
   private createSliderControl(label: string, min: string, max: string, value: string, step: string, onChange: (value: string) => void) {
@@ -279,6 +385,10 @@ export class HUD {
     this.onMeteorFreqChange = callback;
   }
 
+  setAimAssistChangeCallback(callback: (strength: number) => void) {
+    this.onAimAssistChange = callback;
+  }
+
   dispose() {
     if (this.hudElement.parentNode) {
       document.body.removeChild(this.hudElement);
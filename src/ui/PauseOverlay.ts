@@ -0,0 +1,106 @@
+export class PauseOverlay {
+  private overlayElement!: HTMLElement;
+  private resumeButton!: HTMLButtonElement;
+  private quitButton!: HTMLButtonElement;
+
+  private onResume?: () => void;
+  private onQuit?: () => void;
+
+  constructor() {
+    this.createOverlay();
+    this.hide();
+  }
+
+  private createOverlay() {
+    this.overlayElement = document.createElement('div');
+    this.overlayElement.id = 'pause-overlay';
+    this.overlayElement.style.cssText = `
+      position: fixed;
+      top: 0;
+      left: 0;
+      width: 100%;
+      height: 100%;
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      justify-content: center;
+      gap: 16px;
+      background: rgba(0, 0, 0, 0.6);
+      z-index: 200;
+      color: white;
+      font-family: system-ui, -apple-system, sans-serif;
+    `;
+
+    const title = document.createElement('h1');
+    title.textContent = 'PAUSED';
+    title.style.cssText = `
+      margin: 0 0 8px;
+      font-size: 36px;
+    `;
+
+    this.resumeButton = this.createButton('Resume', () => this.onResume?.());
+    this.quitButton = this.createButton('Quit to Title', () => this.onQuit?.());
+
+    const hint = document.createElement('div');
+    hint.textContent = 'Press ESC to resume';
+    hint.style.cssText = `
+      font-size: 14px;
+      color: #ccc;
+    `;
+
+    this.overlayElement.appendChild(title);
+    this.overlayElement.appendChild(this.resumeButton);
+    this.overlayElement.appendChild(this.quitButton);
+    this.overlayElement.appendChild(hint);
+
+    document.body.appendChild(this.overlayElement);
+  }
+
+  private createButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = label;
+    button.style.cssText = `
+      min-width: 200px;
+      min-height: 48px;
+      font-size: 18px;
+      font-weight: bold;
+      color: white;
+      background: rgba(66, 153, 225, 0.8);
+      border: none;
+      border-radius: 8px;
+      cursor: pointer;
+    `;
+
+    // Keep clicks from reaching the game's mouse punch handler
+    button.addEventListener('mousedown', (e) => e.stopPropagation());
+    button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      onClick();
+    });
+
+    return button;
+  }
+
+  show() {
+    this.overlayElement.style.display = 'flex';
+    this.resumeButton.focus();
+  }
+
+  hide() {
+    this.overlayElement.style.display = 'none';
+  }
+
+  setResumeCallback(callback: () => void) {
+    this.onResume = callback;
+  }
+
+  setQuitCallback(callback: () => void) {
+    this.onQuit = callback;
+  }
+
+  dispose() {
+    if (this.overlayElement.parentNode) {
+      document.body.removeChild(this.overlayElement);
+    }
+  }
+}
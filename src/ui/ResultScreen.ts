@@ -0,0 +1,62 @@
+import { MatchResult } from '../game/Simulation';
+import { popIn, popOut } from './Transitions';
+
+export class ResultScreen {
+  private element!: HTMLElement;
+
+  constructor() {
+    this.createElement();
+  }
+
+  private createElement() {
+    this.element = document.createElement('div');
+    this.element.id = 'result-ui';
+    this.element.style.cssText = `
+      position: fixed;
+      top: 50%;
+      left: 50%;
+      transform: translate(-50%, -50%);
+      color: white;
+      text-align: center;
+      font-size: 24px;
+      z-index: 100;
+      display: none;
+    `;
+    document.body.appendChild(this.element);
+  }
+
+  setResult(result: MatchResult, wasReplay: boolean, difficultyLabel: string, best: string | null, isNewBest: boolean) {
+    const won = result.outcome === 'survived';
+    const heading = won ? 'SURVIVED!' : result.outcome === 'fell' ? 'FELL OFF...' : 'EXTINCT...';
+    this.element.innerHTML = `
+      ${wasReplay ? '<p style="font-size: 16px; color: #4299e1;">REPLAY</p>' : ''}
+      <h1>${heading}</h1>
+      ${result.bossDefeated ? '<p style="font-size: 20px; color: #f6e05e;">Boss meteor defeated!</p>' : ''}
+      <p>Creatures remaining: ${result.survivors}</p>
+      <p style="font-size: 18px;">Falls: ${result.falls}</p>
+      <p style="font-size: 18px;">Difficulty: ${difficultyLabel}</p>
+      ${isNewBest ? '<p style="font-size: 18px; color: #f6e05e;">NEW BEST!</p>' : ''}
+      ${best ? `<p style="font-size: 16px;">Best (${difficultyLabel}): ${best}</p>` : ''}
+      <p style="font-size: 14px; color: #aaa;">Seed: ${result.seed}</p>
+      <p>Press SPACE to retry, J for title</p>
+      <p style="font-size: 16px;">R to watch replay, E to save replay file</p>
+    `;
+  }
+
+  show(): Promise<void> {
+    this.element.style.display = 'block';
+    return popIn(this.element);
+  }
+
+  async hide(): Promise<void> {
+    if (this.element.style.display === 'none') return;
+    await popOut(this.element);
+    this.element.style.display = 'none';
+  }
+
+  dispose() {
+    if (this.element.parentNode) {
+      document.body.removeChild(this.element);
+    }
+  }
+}
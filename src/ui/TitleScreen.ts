@@ -0,0 +1,77 @@
+import { popIn, popOut } from './Transitions';
+
+export class TitleScreen {
+  private element!: HTMLElement;
+  private difficultyElement!: HTMLElement;
+  private aimElement!: HTMLElement;
+
+  constructor() {
+    this.createElement();
+  }
+
+  private createElement() {
+    this.element = document.createElement('div');
+    this.element.id = 'title-ui';
+    this.element.style.cssText = `
+      position: fixed;
+      top: 50%;
+      left: 50%;
+      transform: translate(-50%, -50%);
+      color: white;
+      text-align: center;
+      font-size: 24px;
+      z-index: 100;
+      display: none;
+    `;
+    this.element.innerHTML = `
+      <h1>Meteor Punch Garden</h1>
+      <p>Press SPACE or J to start</p>
+      <p>WASD to move, SPACE to jump, J to punch, ESC to pause</p>
+      <p style="font-size: 16px;">J: punch, or uppercut from the ground. Hold J in the air, then release: charged punch. SPACE+J while falling: dive</p>
+      <p style="font-size: 16px;">SPACE in mid-air: double jump, or kick off a wall</p>
+      <p style="font-size: 16px;">K or right-click: pick up / set down a creature. J while carrying: throw</p>
+    `;
+
+    this.difficultyElement = document.createElement('div');
+    this.difficultyElement.style.cssText = 'margin-top: 16px; font-size: 20px;';
+    this.element.appendChild(this.difficultyElement);
+
+    this.aimElement = document.createElement('div');
+    this.aimElement.style.cssText = 'font-size: 20px;';
+    this.element.appendChild(this.aimElement);
+
+    document.body.appendChild(this.element);
+  }
+
+  setDifficulty(label: string, best: string | null) {
+    this.difficultyElement.innerHTML = `
+      <p>Difficulty: &lt; ${label} &gt;</p>
+      <p style="font-size: 14px; color: #aaa;">A/D or arrow keys to change${best ? ` - Best: ${best}` : ''}</p>
+    `;
+  }
+
+  // Device is set when the mode is that device's default rather than a pick
+  setAimMode(label: string, device: string | null) {
+    this.aimElement.innerHTML = `
+      <p>Aim: &lt; ${label}${device ? ` (${device} default)` : ''} &gt;</p>
+      <p style="font-size: 14px; color: #aaa;">W/S or up/down to change</p>
+    `;
+  }
+
+  show(): Promise<void> {
+    this.element.style.display = 'block';
+    return popIn(this.element);
+  }
+
+  async hide(): Promise<void> {
+    if (this.element.style.display === 'none') return;
+    await popOut(this.element);
+    this.element.style.display = 'none';
+  }
+
+  dispose() {
+    if (this.element.parentNode) {
+      document.body.removeChild(this.element);
+    }
+  }
+}
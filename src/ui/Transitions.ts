@@ -0,0 +1,73 @@
+// Screen transition animations (spec 3.2 / 6.2): 0.25 s fades and a light 0.95 -> 1.0 pop.
+// Built on the Web Animations API so they run on wall-clock time, independent of
+// hit-stop or pause.
+
+export const FADE_DURATION = 0.25;
+
+function run(element: HTMLElement, keyframes: Keyframe[], duration: number): Promise<void> {
+  const animation = element.animate(keyframes, {
+    duration: duration * 1000,
+    easing: 'ease-out',
+    fill: 'forwards'
+  });
+  return animation.finished.then(() => undefined, () => undefined); // Cancelled counts as done
+}
+
+export function fadeIn(element: HTMLElement, duration = FADE_DURATION): Promise<void> {
+  return run(element, [{ opacity: 0 }, { opacity: 1 }], duration);
+}
+
+export function fadeOut(element: HTMLElement, duration = FADE_DURATION): Promise<void> {
+  return run(element, [{ opacity: 1 }, { opacity: 0 }], duration);
+}
+
+// Elements are centred with translate(-50%, -50%), so keep it in every frame
+export function popIn(element: HTMLElement, duration = FADE_DURATION): Promise<void> {
+  return run(element, [
+    { opacity: 0, transform: 'translate(-50%, -50%) scale(0.95)' },
+    { opacity: 1, transform: 'translate(-50%, -50%) scale(1.0)' }
+  ], duration);
+}
+
+export function popOut(element: HTMLElement, duration = FADE_DURATION): Promise<void> {
+  return run(element, [
+    { opacity: 1, transform: 'translate(-50%, -50%) scale(1.0)' },
+    { opacity: 0, transform: 'translate(-50%, -50%) scale(0.95)' }
+  ], duration);
+}
+
+// Full-screen black layer used to fade between gameplay and menus
+export class ScreenFader {
+  private element: HTMLElement;
+
+  constructor() {
+    this.element = document.createElement('div');
+    this.element.id = 'screen-fader';
+    this.element.style.cssText = `
+      position: fixed;
+      top: 0;
+      left: 0;
+      width: 100%;
+      height: 100%;
+      background: #000;
+      opacity: 0;
+      pointer-events: none;
+      z-index: 300;
+    `;
+    document.body.appendChild(this.element);
+  }
+
+  toBlack(duration = FADE_DURATION): Promise<void> {
+    return fadeIn(this.element, duration);
+  }
+
+  fromBlack(duration = FADE_DURATION): Promise<void> {
+    return fadeOut(this.element, duration);
+  }
+
+  dispose() {
+    if (this.element.parentNode) {
+      document.body.removeChild(this.element);
+    }
+  }
+}